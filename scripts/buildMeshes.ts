@@ -0,0 +1,50 @@
+// builds a deterministic mesh bundle from the countries GeoJSON, loaded by src/meshBundle.ts
+//
+//   pnpm build:meshes [--input public/countries.geo.json] [--out public/meshes] [--seed 1]
+//
+// the app only loads bundles built with the default seed, MESH_BUNDLE_SEED
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseCountries } from '../src/countries';
+import { buildMeshFile, createBundleIndex, MESH_BUNDLE_SEED, meshFileName } from '../src/meshBundle';
+import { outlineOptions } from '../src/outline';
+
+const { values } = parseArgs({
+  options: {
+    input: { type: 'string', default: 'public/countries.geo.json' },
+    out: { type: 'string', default: 'public/meshes' },
+    seed: { type: 'string', default: String(MESH_BUNDLE_SEED) }
+  }
+});
+
+const input = values.input!;
+const out = values.out!;
+const seed = Number(values.seed);
+if (!Number.isInteger(seed)) {
+  console.error(`--seed must be an integer, got "${values.seed}"`);
+  process.exit(1);
+}
+
+const geojson = JSON.parse(await readFile(input, 'utf8'));
+const countries = parseCountries(geojson);
+const outline = outlineOptions(input);
+
+await rm(out, { recursive: true, force: true });
+await mkdir(out, { recursive: true });
+
+const index = createBundleIndex(seed, path.basename(input), outline);
+let bytes = 0;
+const start = Date.now();
+
+for (const [i, country] of countries.entries()) {
+  const file = meshFileName(i, country.name);
+  const packed = buildMeshFile(country, i, seed, outline);
+  await writeFile(path.join(out, file), new Uint8Array(packed));
+  bytes += packed.byteLength;
+  index.countries.push({ name: country.name, file, polygons: country.polygons.length });
+}
+
+await writeFile(path.join(out, 'index.json'), JSON.stringify(index, null, 2));
+console.log(`Wrote ${countries.length} countries (${(bytes / 1e6).toFixed(1)} MB) to ${out} in ${Date.now() - start} ms`);
@@ -0,0 +1,589 @@
+// this module renders all country surfaces, points and edges as a few merged
+// geometries instead of one mesh per polygon. Every surface vertex carries the
+// id of its country, the choropleth color and visibility of each country live in
+// a small data texture so recoloring only uploads that texture. Extrusion heights
+// live in a second texture, so prisms grow without rebuilding the geometry.
+// Several views of the same geometry, e.g. side by side years, each keep their
+// own colors and heights and are switched with useView before rendering.
+// Vertices also carry their longitude/latitude, the shaders blend between the
+// globe and a flat map projection with the mapMorph uniform.
+// Every detail level of the meshes has its own chunks, one level is drawn at a time.
+
+import * as THREE from 'three';
+import type { CountryData, CountryMesh, LatLon } from './types';
+import { DEFAULT_LEVEL, DETAIL_LEVELS } from './lod';
+import { PROJECTION_GLSL, PROJECTION_INDEX, projectLonLat, type MapProjection } from './projection';
+
+export const EXTRUDE_HEIGHT = 0.01;
+
+// countries per row of the color texture
+const TEXTURE_WIDTH = 256;
+
+// how fast heights approach their target, per second
+const HEIGHT_EASING = 6;
+
+// duration of the morph between globe and map, in seconds
+const MORPH_DURATION = 1.5;
+
+const easeInOut = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+const COLOR_BOUNDARY = new THREE.Color(0xff0000);
+const COLOR_INTERNAL = new THREE.Color(0xffcc00);
+const COLOR_OFFSET = new THREE.Color(0x6feb17);
+
+// surface vertices of one polygon inside a chunk
+interface Range {
+  id: number;
+  start: number;
+  count: number;
+  sphere: THREE.Sphere;
+  plane?: THREE.Sphere;  // bounds on the flat map, computed when first picked
+}
+
+// colors and heights shown by one view
+interface View {
+  colorData: Uint8Array;
+  colorTexture: THREE.DataTexture;
+  heights: Float32Array;
+  targetHeights: Float32Array;
+  heightTexture: THREE.DataTexture;
+}
+
+interface Chunk {
+  surface: THREE.Mesh;
+  points: THREE.Points;
+  edges: THREE.LineSegments;
+  ranges: Range[];
+}
+
+export class CountryBatch {
+  readonly surfaces = new THREE.Group();
+  readonly points = new THREE.Group();
+  readonly edges = new THREE.Group();
+
+  private countries: CountryData[] = [];
+  private pending: CountryData[] = [];
+  // chunks by detail level, countries are added to the default level first
+  private levels: Chunk[][] = DETAIL_LEVELS.map(() => []);
+  private shown = DEFAULT_LEVEL;
+  private hidden = new Set<number>();
+
+  private textureHeight: number;
+  private views: View[] = [];
+  private countryColors = { value: null as THREE.DataTexture | null };
+  private countryHeights = { value: null as THREE.DataTexture | null };
+  private surfaceMaterial: THREE.MeshStandardMaterial;
+  private highlighted = { value: -1 };
+  private selected = new Set<number>();
+  private pointsMaterial = new THREE.PointsMaterial({ size: 0.005, vertexColors: true });
+  private edgesMaterial = new THREE.LineBasicMaterial({ color: 0xffffff });
+  private projection: MapProjection = 'equirectangular';
+  private mapProjection = { value: PROJECTION_INDEX[this.projection] };
+  private mapMorph = { value: 0 };
+  private morphProgress = 0;
+  private morphTarget = 0;
+
+  /**
+   * @param capacity highest country id + 1
+   */
+  constructor(capacity: number) {
+    const height = Math.max(1, Math.ceil(capacity / TEXTURE_WIDTH));
+    this.textureHeight = height;
+    this.setViewCount(1);
+    this.useView(0);
+
+    this.surfaceMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff, side: THREE.DoubleSide });
+    this.surfaceMaterial.onBeforeCompile = shader => {
+      shader.uniforms.countryColors = this.countryColors;
+      shader.uniforms.countryColorsSize = { value: new THREE.Vector2(TEXTURE_WIDTH, height) };
+      shader.uniforms.countryHeights = this.countryHeights;
+      shader.uniforms.highlightedCountry = this.highlighted;
+      shader.uniforms.mapProjection = this.mapProjection;
+      shader.uniforms.mapMorph = this.mapMorph;
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>
+          ${PROJECTION_GLSL}
+          attribute float countryId;
+          attribute float extrudeTop;
+          uniform sampler2D countryColors;
+          uniform sampler2D countryHeights;
+          uniform vec2 countryColorsSize;
+          varying vec4 vCountryColor;
+          varying float vCountryId;`)
+        .replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>
+          objectNormal = morphNormal(objectNormal, position);`)
+        .replace('#include <begin_vertex>', `#include <begin_vertex>
+          vCountryId = countryId;
+          vec2 countryUv = vec2(
+            (mod(countryId, countryColorsSize.x) + 0.5) / countryColorsSize.x,
+            (floor(countryId / countryColorsSize.x) + 0.5) / countryColorsSize.y
+          );
+          vCountryColor = texture2D(countryColors, countryUv);
+          // positions lie on the globe, top vertices are lifted by the country height
+          transformed = morphPosition(position, extrudeTop * texture2D(countryHeights, countryUv).r);
+          // hidden countries collapse into degenerate triangles
+          if (vCountryColor.a < 0.25) transformed = vec3(0.0);`);
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>
+          uniform float highlightedCountry;
+          varying vec4 vCountryColor;
+          varying float vCountryId;`)
+        .replace('#include <color_fragment>', `#include <color_fragment>
+          diffuseColor.rgb *= vCountryColor.rgb;`)
+        .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>
+          if (vCountryColor.a < 0.9) totalEmissiveRadiance += vec3(0.35);
+          else if (abs(vCountryId - highlightedCountry) < 0.5) totalEmissiveRadiance += vec3(0.2);`);
+    };
+
+    // points and edges lie on the globe and follow the morph without a height
+    for (const material of [this.pointsMaterial, this.edgesMaterial]) {
+      material.onBeforeCompile = shader => {
+        shader.uniforms.mapProjection = this.mapProjection;
+        shader.uniforms.mapMorph = this.mapMorph;
+        shader.vertexShader = shader.vertexShader
+          .replace('#include <common>', `#include <common>
+            ${PROJECTION_GLSL}`)
+          .replace('#include <begin_vertex>', `#include <begin_vertex>
+            transformed = morphPosition(position, 0.0);`);
+      };
+    }
+  }
+
+  // queue a country, it is drawn with the next flush
+  add(country: CountryData) {
+    this.countries.push(country);
+    this.pending.push(country);
+  }
+
+  // draw every queued country as one new chunk
+  flush() {
+    if (!this.pending.length) return;
+    this.addChunk(this.pending, DEFAULT_LEVEL);
+    this.pending = [];
+  }
+
+  // merge everything drawn so far into a single chunk
+  compact() {
+    this.pending = [];
+    this.removeChunks(DEFAULT_LEVEL);
+    this.addChunk(this.countries, DEFAULT_LEVEL);
+  }
+
+  /**
+   * Draw the meshes of another detail level as one chunk, replacing what that
+   * level had. The countries need their meshes of the level, see setPolygonData.
+   */
+  addLevel(level: number, countries: CountryData[]) {
+    this.removeChunks(level);
+    this.addChunk(countries.filter(country => country.meshes[level]), level);
+  }
+
+  // detail level drawn, see lod.ts
+  get level() {
+    return this.shown;
+  }
+
+  // draw a detail level, the default one is drawn while the level has no chunks yet
+  showLevel(level: number) {
+    this.shown = this.levels[level]?.length ? level : DEFAULT_LEVEL;
+    this.levels.forEach((chunks, i) => {
+      for (const chunk of chunks) {
+        chunk.surface.visible = chunk.points.visible = chunk.edges.visible = i === this.shown;
+      }
+    });
+  }
+
+  private removeChunks(level: number) {
+    for (const chunk of this.levels[level]) {
+      this.surfaces.remove(chunk.surface);
+      this.points.remove(chunk.points);
+      this.edges.remove(chunk.edges);
+      chunk.surface.geometry.dispose();
+      chunk.points.geometry.dispose();
+      chunk.edges.geometry.dispose();
+    }
+    this.levels[level] = [];
+  }
+
+  // views beyond the first start as copies of it
+  setViewCount(count: number) {
+    while (this.views.length < count) {
+      const first = this.views[0];
+      const colorData = first ? first.colorData.slice() : new Uint8Array(TEXTURE_WIDTH * this.textureHeight * 4).fill(255);
+      const colorTexture = new THREE.DataTexture(colorData, TEXTURE_WIDTH, this.textureHeight, THREE.RGBAFormat);
+      colorTexture.colorSpace = THREE.SRGBColorSpace;
+      colorTexture.needsUpdate = true;
+
+      const heights = first ? first.heights.slice() : new Float32Array(TEXTURE_WIDTH * this.textureHeight).fill(EXTRUDE_HEIGHT);
+      const heightTexture = new THREE.DataTexture(heights, TEXTURE_WIDTH, this.textureHeight, THREE.RedFormat, THREE.FloatType);
+      heightTexture.needsUpdate = true;
+
+      this.views.push({ colorData, colorTexture, heights, targetHeights: heights.slice(), heightTexture });
+    }
+  }
+
+  // show the colors and heights of a view in the next render
+  useView(view: number) {
+    this.countryColors.value = this.views[view].colorTexture;
+    this.countryHeights.value = this.views[view].heightTexture;
+  }
+
+  setColor(id: number, color: THREE.ColorRepresentation, view = 0) {
+    const hex = new THREE.Color(color).getHex();
+    const { colorData, colorTexture } = this.views[view];
+    colorData[id * 4] = (hex >> 16) & 255;
+    colorData[id * 4 + 1] = (hex >> 8) & 255;
+    colorData[id * 4 + 2] = hex & 255;
+    colorTexture.needsUpdate = true;
+  }
+
+  getColor(id: number, view = 0) {
+    const { colorData } = this.views[view];
+    return new THREE.Color().setRGB(colorData[id * 4] / 255, colorData[id * 4 + 1] / 255, colorData[id * 4 + 2] / 255, THREE.SRGBColorSpace);
+  }
+
+  setVisible(id: number, visible: boolean) {
+    if (visible) this.hidden.delete(id); else this.hidden.add(id);
+    this.updateAlpha(id);
+  }
+
+  // alpha encodes the state of a country: 0 hidden, 191 selected, 255 visible
+  private updateAlpha(id: number) {
+    for (const { colorData, colorTexture } of this.views) {
+      colorData[id * 4 + 3] = this.hidden.has(id) ? 0 : this.selected.has(id) ? 191 : 255;
+      colorTexture.needsUpdate = true;
+    }
+  }
+
+  // extrusion height of a country above the globe, reached gradually by updateHeights
+  setHeight(id: number, height: number, view = 0) {
+    this.views[view].targetHeights[id] = height;
+  }
+
+  getHeight(id: number, view = 0) {
+    return this.views[view].heights[id];
+  }
+
+  /**
+   * Move heights towards their targets, called every frame.
+   * @returns whether any height changed
+   */
+  updateHeights(deltaSeconds: number) {
+    const k = 1 - Math.exp(-HEIGHT_EASING * deltaSeconds);
+    let changed = false;
+    for (const { heights, targetHeights, heightTexture } of this.views) {
+      let viewChanged = false;
+      for (let id = 0; id < heights.length; id++) {
+        const difference = targetHeights[id] - heights[id];
+        if (difference === 0) continue;
+        heights[id] = Math.abs(difference) < 1e-5 ? targetHeights[id] : heights[id] + difference * k;
+        viewChanged = true;
+      }
+      if (viewChanged) heightTexture.needsUpdate = true;
+      changed ||= viewChanged;
+    }
+    return changed;
+  }
+
+  setProjection(projection: MapProjection) {
+    this.projection = projection;
+    this.mapProjection.value = PROJECTION_INDEX[projection];
+    for (const chunk of this.levels.flat()) for (const range of chunk.ranges) range.plane = undefined;
+  }
+
+  // morph towards the flat map or back to the globe, animated by updateMorph
+  setFlat(flat: boolean) {
+    this.morphTarget = flat ? 1 : 0;
+  }
+
+  // 0 on the globe, 1 on the flat map
+  get morph() {
+    return this.mapMorph.value;
+  }
+
+  /**
+   * Advance the morph between globe and map, called every frame.
+   * @returns whether the morph changed
+   */
+  updateMorph(deltaSeconds: number) {
+    if (this.morphProgress === this.morphTarget) return false;
+    const step = deltaSeconds / MORPH_DURATION;
+    this.morphProgress = this.morphTarget > this.morphProgress
+      ? Math.min(this.morphTarget, this.morphProgress + step)
+      : Math.max(this.morphTarget, this.morphProgress - step);
+    this.mapMorph.value = easeInOut(this.morphProgress);
+    return true;
+  }
+
+  isVisible(id: number) {
+    return !this.hidden.has(id);
+  }
+
+  // tint the country under the cursor, undefined clears it
+  setHighlighted(id: number | undefined) {
+    this.highlighted.value = id ?? -1;
+  }
+
+  // stronger tint for the selected countries
+  setSelected(ids: Iterable<number>) {
+    const previous = [...this.selected];
+    this.selected = new Set(ids);
+    for (const id of [...previous, ...this.selected]) this.updateAlpha(id);
+  }
+
+  /**
+   * Nearest visible country hit by a ray. Only polygons whose bounding sphere
+   * the ray crosses are tested, so the merged geometry stays cheap to pick.
+   * Nothing is picked while morphing between globe and map.
+   * @param view view whose heights are picked
+   * @returns the country id and hit point, or undefined when no country is hit
+   */
+  pick(raycaster: THREE.Raycaster, view = 0): { id: number, point: THREE.Vector3, distance: number } | undefined {
+    if (this.morph !== 0 && this.morph !== 1) return undefined;
+    const flat = this.morph === 1;
+    let best: { id: number, point: THREE.Vector3, distance: number } | undefined;
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+    const hit = new THREE.Vector3();
+
+    for (const chunk of this.levels[this.shown]) {
+      if (!this.surfaces.visible || !chunk.surface.visible) continue;
+      const ray = raycaster.ray.clone().applyMatrix4(chunk.surface.matrixWorld.clone().invert());
+      const position = chunk.surface.geometry.getAttribute('position');
+      const lonLat = chunk.surface.geometry.getAttribute('lonLat');
+      const top = chunk.surface.geometry.getAttribute('extrudeTop');
+      const vertex = (target: THREE.Vector3, i: number, height: number) => {
+        if (!flat) return target.fromBufferAttribute(position, i).multiplyScalar(1 + top.getX(i) * height);
+        const { x, y } = projectLonLat(lonLat.getX(i), lonLat.getY(i), this.projection);
+        return target.set(x, y, top.getX(i) * height);
+      };
+      const sphere = new THREE.Sphere();
+      for (const range of chunk.ranges) {
+        const height = this.views[view].heights[range.id];
+        if (flat) range.plane ??= this.planeBounds(lonLat, range);
+        sphere.copy(flat ? range.plane! : range.sphere).radius += height;
+        if (!this.isVisible(range.id) || !ray.intersectsSphere(sphere)) continue;
+        for (let i = range.start; i < range.start + range.count; i += 3) {
+          vertex(a, i, height);
+          vertex(b, i + 1, height);
+          vertex(c, i + 2, height);
+          if (!ray.intersectTriangle(a, b, c, false, hit)) continue;
+          const point = hit.clone().applyMatrix4(chunk.surface.matrixWorld);
+          const distance = point.distanceTo(raycaster.ray.origin);
+          if (!best || distance < best.distance) best = { id: range.id, point, distance };
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Standalone geometry of a country as it is shown, for other tools: the height
+   * and the map morph are applied to the positions and the color is baked into
+   * vertex colors. The mesh is the one of the detail level drawn.
+   */
+  bakeGeometry(country: CountryData, view = 0): THREE.BufferGeometry {
+    const mesh = country.meshes[this.shown] ?? country;
+    const positions: number[] = [];
+    const tops: number[] = [];
+    const lonLatData: number[] = [];
+    for (let index = 0; index < mesh.spherePoints.length; index++) {
+      pushSurface(mesh, index, positions, tops, [], lonLatData);
+    }
+
+    const height = this.views[view].heights[country.id];
+    const color = this.getColor(country.id, view);
+    const globe = new THREE.Vector3();
+    const colors: number[] = [];
+    for (let i = 0; i < tops.length; i++) {
+      const lift = tops[i] * height;
+      globe.fromArray(positions, i * 3).multiplyScalar(1 + lift);
+      const { x, y } = projectLonLat(lonLatData[i * 2], lonLatData[i * 2 + 1], this.projection);
+      globe.lerp(new THREE.Vector3(x, y, lift), this.morph).toArray(positions, i * 3);
+      colors.push(color.r, color.g, color.b);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    // triangles are wound to face outwards, on the globe and on the map
+    geometry.computeVertexNormals();
+    return geometry;
+  }
+
+  private planeBounds(lonLat: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, range: Range) {
+    const points: THREE.Vector3[] = [];
+    for (let i = range.start; i < range.start + range.count; i++) {
+      const { x, y } = projectLonLat(lonLat.getX(i), lonLat.getY(i), this.projection);
+      points.push(new THREE.Vector3(x, y, 0));
+    }
+    return new THREE.Sphere().setFromPoints(points);
+  }
+
+  private addChunk(countries: CountryData[], level: number) {
+    const surfacePositions: number[] = [];
+    const surfaceTops: number[] = [];
+    const surfaceNormals: number[] = [];
+    const surfaceLonLats: number[] = [];
+    const surfaceIds: number[] = [];
+    const pointPositions: number[] = [];
+    const pointColors: number[] = [];
+    const pointLonLats: number[] = [];
+    const edgePositions: number[] = [];
+    const edgeLonLats: number[] = [];
+    const ranges: Range[] = [];
+
+    for (const country of countries) {
+      const mesh = country.meshes[level] ?? country;
+      for (let index = 0; index < mesh.spherePoints.length; index++) {
+        const before = surfacePositions.length;
+        pushSurface(mesh, index, surfacePositions, surfaceTops, surfaceNormals, surfaceLonLats);
+        for (let i = before; i < surfacePositions.length; i += 3) surfaceIds.push(country.id);
+        if (surfacePositions.length > before) {
+          const sphere = new THREE.Sphere().setFromPoints(mesh.spherePoints[index].map(p => new THREE.Vector3(p.x, p.y, p.z)));
+          ranges.push({ id: country.id, start: before / 3, count: (surfacePositions.length - before) / 3, sphere });
+        }
+        pushPoints(mesh, index, pointPositions, pointColors, pointLonLats);
+        pushEdges(mesh, index, edgePositions, edgeLonLats);
+      }
+    }
+
+    const surfaceGeometry = new THREE.BufferGeometry();
+    surfaceGeometry.setAttribute('position', new THREE.Float32BufferAttribute(surfacePositions, 3));
+    surfaceGeometry.setAttribute('normal', new THREE.Float32BufferAttribute(surfaceNormals, 3));
+    surfaceGeometry.setAttribute('extrudeTop', new THREE.Float32BufferAttribute(surfaceTops, 1));
+    surfaceGeometry.setAttribute('lonLat', new THREE.Float32BufferAttribute(surfaceLonLats, 2));
+    surfaceGeometry.setAttribute('countryId', new THREE.Float32BufferAttribute(surfaceIds, 1));
+    // heights and the map are applied in the shader, keep bounds around both
+    surfaceGeometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), 4);
+
+    const pointsGeometry = new THREE.BufferGeometry();
+    pointsGeometry.setAttribute('position', new THREE.Float32BufferAttribute(pointPositions, 3));
+    pointsGeometry.setAttribute('color', new THREE.Float32BufferAttribute(pointColors, 3));
+    pointsGeometry.setAttribute('lonLat', new THREE.Float32BufferAttribute(pointLonLats, 2));
+    pointsGeometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), 4);
+
+    const edgesGeometry = new THREE.BufferGeometry();
+    edgesGeometry.setAttribute('position', new THREE.Float32BufferAttribute(edgePositions, 3));
+    edgesGeometry.setAttribute('lonLat', new THREE.Float32BufferAttribute(edgeLonLats, 2));
+    edgesGeometry.boundingSphere = new THREE.Sphere(new THREE.Vector3(), 4);
+
+    const chunk: Chunk = {
+      surface: new THREE.Mesh(surfaceGeometry, this.surfaceMaterial),
+      points: new THREE.Points(pointsGeometry, this.pointsMaterial),
+      edges: new THREE.LineSegments(edgesGeometry, this.edgesMaterial),
+      ranges
+    };
+    chunk.surface.visible = chunk.points.visible = chunk.edges.visible = level === this.shown;
+    this.levels[level].push(chunk);
+    this.surfaces.add(chunk.surface);
+    this.points.add(chunk.points);
+    this.edges.add(chunk.edges);
+  }
+}
+
+// longitude and latitude in radians of polygon points. When they span more than
+// half the globe they cross the antimeridian, western ones are moved past +180°
+// so the shape stays in one piece on the map
+function lonLats(points: LatLon[]): [number, number][] {
+  const result = points.map(({ lon, lat }): [number, number] => [THREE.MathUtils.degToRad(lon), THREE.MathUtils.degToRad(lat)]);
+  const lons = result.map(([lon]) => lon);
+  if (Math.max(...lons) - Math.min(...lons) > Math.PI) {
+    for (const point of result) if (point[0] < 0) point[0] += 2 * Math.PI;
+  }
+  return result;
+}
+
+function pushPoints(mesh: CountryMesh, index: number, positions: number[], colors: number[], lonLatData: number[]) {
+  for (let i = 0; i < mesh.spherePoints[index].length; i++) {
+    const p = mesh.spherePoints[index][i];
+    positions.push(p.x, p.y, p.z);
+    const c = mesh.points[index][i].boundary ? COLOR_BOUNDARY : mesh.points[index][i].offset ? COLOR_OFFSET : COLOR_INTERNAL;
+    colors.push(c.r, c.g, c.b);
+    lonLatData.push(...lonLats([mesh.points[index][i]])[0]);
+  }
+}
+
+function pushEdges(mesh: CountryMesh, index: number, positions: number[], lonLatData: number[]) {
+  const points = mesh.points[index];
+  for (const [a, b, c] of mesh.triangles[index]) {
+    const A = mesh.spherePoints[index][a], B = mesh.spherePoints[index][b], C = mesh.spherePoints[index][c];
+    positions.push(
+      A.x, A.y, A.z, B.x, B.y, B.z,
+      B.x, B.y, B.z, C.x, C.y, C.z,
+      C.x, C.y, C.z, A.x, A.y, A.z
+    );
+    const [LA, LB, LC] = lonLats([points[a], points[b], points[c]]);
+    lonLatData.push(...LA, ...LB, ...LB, ...LC, ...LC, ...LA);
+  }
+}
+
+/**
+ * Caps and outline walls of one polygon. Positions lie on the globe and `top`
+ * marks the vertices the shader lifts by the country height. Normals do not
+ * depend on the height: caps face along the radius and walls lie in the plane
+ * through their edge and the globe center.
+ */
+function pushSurface(
+  mesh: CountryMesh,
+  index: number,
+  positions: number[],
+  tops: number[],
+  normals: number[],
+  lonLatData: number[]
+) {
+  const points = mesh.spherePoints[index].map(p => new THREE.Vector3(p.x, p.y, p.z));
+  const triangles = mesh.triangles[index];
+
+  // walls are only needed along the outline, edges shared by two triangles are inside the prism
+  const edgeKey = (u: number, v: number) => u < v ? `${u},${v}` : `${v},${u}`;
+  const edgeCount = new Map<string, number>();
+  for (const [a, b, c] of triangles) {
+    for (const [u, v] of [[a, b], [b, c], [c, a]]) {
+      edgeCount.set(edgeKey(u, v), (edgeCount.get(edgeKey(u, v)) ?? 0) + 1);
+    }
+  }
+
+  const normal = new THREE.Vector3();
+  const centroid = new THREE.Vector3();
+  const ab = new THREE.Vector3(), ac = new THREE.Vector3();
+
+  // push a triangle wound so that its face normal points along `outward`,
+  // lifted positions (top = 1) are taken at unit height for the winding
+  function pushTri(
+    vertices: [THREE.Vector3, number, [number, number]][],
+    outward: THREE.Vector3
+  ) {
+    const [A, B, C] = vertices.map(([p, top]) => p.clone().multiplyScalar(1 + top));
+    normal.crossVectors(ab.subVectors(B, A), ac.subVectors(C, A)).normalize();
+    if (normal.dot(outward) < 0) {
+      [vertices[1], vertices[2]] = [vertices[2], vertices[1]];
+      normal.negate();
+    }
+    for (const [p, top, lonLat] of vertices) {
+      positions.push(p.x, p.y, p.z);
+      lonLatData.push(...lonLat);
+      tops.push(top);
+      normals.push(normal.x, normal.y, normal.z);
+    }
+  }
+
+  for (const [a, b, c] of triangles) {
+    const A = points[a], B = points[b], C = points[c];
+    const [LA, LB, LC] = lonLats([mesh.points[index][a], mesh.points[index][b], mesh.points[index][c]]);
+    const lonLatOf = new Map([[a, LA], [b, LB], [c, LC]]);
+    centroid.copy(A).add(B).add(C).divideScalar(3);
+
+    pushTri([[A, 0, LA], [B, 0, LB], [C, 0, LC]], centroid.clone().negate());
+    pushTri([[A, 1, LA], [B, 1, LB], [C, 1, LC]], centroid);
+
+    for (const [u, v] of [[a, b], [b, c], [c, a]]) {
+      if (edgeCount.get(edgeKey(u, v)) !== 1) continue;
+      const U = points[u], V = points[v];
+      const LU = lonLatOf.get(u)!, LV = lonLatOf.get(v)!;
+      // away from the triangle, along the globe surface
+      const outward = U.clone().add(V).multiplyScalar(0.5).sub(centroid);
+      pushTri([[U, 0, LU], [V, 0, LV], [U, 1, LU]], outward);
+      pushTri([[V, 0, LV], [V, 1, LV], [U, 1, LU]], outward);
+    }
+  }
+}
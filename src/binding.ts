@@ -0,0 +1,57 @@
+// this module binds a viewport to the data it shows: an indicator at a year,
+// or in difference mode the change of the indicator since a base year
+
+import { classColor, classify, type Classification, type ClassificationScheme } from './classification';
+import { valueAt } from './helper';
+import type { IndicatorDataset, IndicatorValue } from './types';
+
+export type CompareMode = 'off' | 'split' | 'difference';
+
+export const COMPARE_MODES: { value: CompareMode, label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'split', label: 'Side by side' },
+  { value: 'difference', label: 'Difference between years' }
+];
+
+export interface DataBinding {
+  indicator: IndicatorDataset;
+  year: number;             // fractional while playing
+  baseYear?: string;        // difference mode: values are the change since this year
+  classification: Classification;
+}
+
+/**
+ * Value and color of a country for a binding. Without a base year the colors
+ * precomputed in the dataset are used, see colorIndicator, so they must come
+ * from the binding's classification.
+ */
+export function bindingValue({ indicator, year, baseYear, classification }: DataBinding, iso: string): IndicatorValue | undefined {
+  const years = indicator.countries[iso];
+  const data = valueAt(years, year);
+  if (baseYear === undefined || !data) return data;
+  const value = data.value - (years[baseYear]?.value ?? NaN);
+  return { value, color: classColor(value, classification) };
+}
+
+// change since the base year of every country in each of the years, NaN where either year has no data
+export function differenceValues(indicator: IndicatorDataset, years: string[], baseYear: string, isos: string[]): number[] {
+  return isos.flatMap(iso => {
+    const values = indicator.countries[iso];
+    const base = values?.[baseYear]?.value ?? NaN;
+    return years.map(year => (values?.[year]?.value ?? NaN) - base);
+  });
+}
+
+/**
+ * Classes centered on zero, growth and decline get the two halves of a diverging
+ * palette. Quantile and similar schemes are not symmetric, they fall back to equal intervals.
+ */
+export function classifyDifference(values: number[], scheme: ClassificationScheme, colors: string[]): Classification {
+  const extent = Math.max(0, ...values.filter(v => !isNaN(v)).map(Math.abs)) || 1;
+  return classify([...values, -extent, extent], scheme === 'continuous' ? 'continuous' : 'equal-interval', colors);
+}
+
+// dataset to format the values of a binding with, differences carry a sign
+export function displayDataset({ indicator, baseYear }: DataBinding): IndicatorDataset {
+  return baseYear === undefined ? indicator : { ...indicator, signed: true };
+}
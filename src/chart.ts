@@ -0,0 +1,135 @@
+// this module draws the yearly history of the selected countries as an SVG line chart
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const WIDTH = 320;
+const HEIGHT = 180;
+const MARGIN = { top: 10, right: 12, bottom: 22, left: 44 };
+
+export const SERIES_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4'];
+
+const compact = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+
+export interface ChartSeries {
+  name: string;
+  color: string;
+  values: { year: number, value: number }[];
+}
+
+function svg<K extends keyof SVGElementTagNameMap>(tag: K, attributes: Record<string, string | number>) {
+  const element = document.createElementNS(SVG_NS, tag);
+  for (const key in attributes) element.setAttribute(key, String(attributes[key]));
+  return element;
+}
+
+export function createTimeSeriesChart({
+  onYearClick,
+  formatValue = (value: number) => compact.format(value)
+}: {
+  onYearClick?: (year: number) => void;
+  formatValue?: (value: number) => string;
+}) {
+  const container = document.createElement('div');
+  Object.assign(container.style, {
+    position: 'fixed',
+    bottom: '30px',
+    right: '30px',
+    padding: '8px',
+    borderRadius: '5px',
+    fontFamily: 'Arial',
+    fontSize: '10px',
+    background: 'rgba(0,0,0,0.75)',
+    color: '#fff',
+    zIndex: '10',
+    display: 'none'
+  });
+
+  const chart = svg('svg', { width: WIDTH, height: HEIGHT, viewBox: `0 0 ${WIDTH} ${HEIGHT}` });
+  chart.style.cursor = 'pointer';
+  const legend = document.createElement('div');
+  Object.assign(legend.style, { display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '4px' });
+
+  container.append(chart, legend);
+  document.body.appendChild(container);
+
+  let minYear = 0, maxYear = 0;
+  const innerWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const innerHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (year: number) => MARGIN.left + (maxYear === minYear ? 0 : (year - minYear) / (maxYear - minYear)) * innerWidth;
+
+  // clicking anywhere on the chart picks the nearest year
+  chart.addEventListener('click', (event) => {
+    if (maxYear === minYear) return;
+    const bounds = chart.getBoundingClientRect();
+    const px = (event.clientX - bounds.left) * (WIDTH / bounds.width);
+    const t = Math.min(1, Math.max(0, (px - MARGIN.left) / innerWidth));
+    onYearClick?.(Math.round(minYear + t * (maxYear - minYear)));
+  });
+
+  return {
+    update(series: ChartSeries[], currentYear: number) {
+      chart.replaceChildren();
+      legend.replaceChildren();
+      const values = series.flatMap(s => s.values).filter(v => !isNaN(v.value));
+      if (!values.length) {
+        container.style.display = series.length ? 'block' : 'none';
+        const empty = svg('text', { x: WIDTH / 2, y: HEIGHT / 2, fill: '#fff', 'text-anchor': 'middle' });
+        empty.textContent = 'No Data';
+        chart.appendChild(empty);
+        return;
+      }
+      container.style.display = 'block';
+
+      minYear = Math.min(...values.map(v => v.year));
+      maxYear = Math.max(...values.map(v => v.year));
+      const maxValue = Math.max(...values.map(v => v.value), 0);
+      const minValue = Math.min(...values.map(v => v.value), 0);
+      const y = (value: number) => MARGIN.top + (1 - (value - minValue) / ((maxValue - minValue) || 1)) * innerHeight;
+
+      // axes and ticks
+      chart.appendChild(svg('line', { x1: MARGIN.left, y1: y(minValue), x2: WIDTH - MARGIN.right, y2: y(minValue), stroke: '#888' }));
+      chart.appendChild(svg('line', { x1: MARGIN.left, y1: MARGIN.top, x2: MARGIN.left, y2: HEIGHT - MARGIN.bottom, stroke: '#888' }));
+      for (const value of [minValue, (minValue + maxValue) / 2, maxValue]) {
+        const label = svg('text', { x: MARGIN.left - 4, y: y(value) + 3, fill: '#ccc', 'text-anchor': 'end' });
+        label.textContent = formatValue(value);
+        chart.appendChild(label);
+      }
+      for (const year of [minYear, Math.round((minYear + maxYear) / 2), maxYear]) {
+        const label = svg('text', { x: x(year), y: HEIGHT - 6, fill: '#ccc', 'text-anchor': 'middle' });
+        label.textContent = String(year);
+        chart.appendChild(label);
+      }
+
+      // current year marker
+      chart.appendChild(svg('line', {
+        x1: x(currentYear), y1: MARGIN.top, x2: x(currentYear), y2: HEIGHT - MARGIN.bottom,
+        stroke: '#fff', 'stroke-dasharray': '3 3'
+      }));
+
+      for (const s of series) {
+        // gaps in the data split the line
+        let d = '';
+        let drawing = false;
+        for (const v of s.values) {
+          if (isNaN(v.value)) { drawing = false; continue; }
+          d += `${drawing ? 'L' : 'M'}${x(v.year).toFixed(1)},${y(v.value).toFixed(1)}`;
+          drawing = true;
+        }
+        chart.appendChild(svg('path', { d, fill: 'none', stroke: s.color, 'stroke-width': 1.5 }));
+
+        const current = s.values.find(v => v.year === currentYear);
+        if (current && !isNaN(current.value)) {
+          chart.appendChild(svg('circle', { cx: x(currentYear), cy: y(current.value), r: 3, fill: s.color }));
+        }
+
+        const entry = document.createElement('span');
+        entry.textContent = `● ${s.name}`;
+        entry.style.color = s.color;
+        legend.appendChild(entry);
+      }
+    },
+
+    hide() {
+      container.style.display = 'none';
+    }
+  };
+}
@@ -0,0 +1,159 @@
+// this module splits indicator values into choropleth classes and maps values to colors
+
+import * as THREE from 'three';
+import type { Category, IndicatorDataset } from './types';
+
+export type ClassificationScheme = 'equal-interval' | 'quantile' | 'jenks' | 'log' | 'continuous';
+
+export const CLASSIFICATION_SCHEMES: { value: ClassificationScheme, label: string }[] = [
+  { value: 'equal-interval', label: 'Equal interval' },
+  { value: 'quantile', label: 'Quantile' },
+  { value: 'jenks', label: 'Natural breaks (Jenks)' },
+  { value: 'log', label: 'Logarithmic' },
+  { value: 'continuous', label: 'Continuous' }
+];
+
+export const NO_DATA_COLOR = '#ffffff';
+
+// jenks is quadratic in the number of values, larger inputs are reduced to evenly spaced quantiles
+const JENKS_MAX_VALUES = 1000;
+
+export interface Classification {
+  scheme: ClassificationScheme;
+  // classes cover [min, max), the last one includes its max. for continuous
+  // scales they split the range evenly and colors are interpolated between them
+  categories: Category[];
+}
+
+// color at t in [0, 1] along a ramp, interpolating between its stops
+function interpolateRamp(ramp: string[], t: number): string {
+  const position = t * (ramp.length - 1);
+  const from = Math.floor(position);
+  const to = Math.min(ramp.length - 1, from + 1);
+  return '#' + new THREE.Color(ramp[from]).lerp(new THREE.Color(ramp[to]), position - from).getHexString();
+}
+
+/**
+ * Sample `count` colors evenly along a ramp.
+ */
+export function rampColors(ramp: string[], count: number): string[] {
+  if (count === 1) return [ramp[ramp.length - 1]];
+  return Array.from({ length: count }, (_, i) => interpolateRamp(ramp, i / (count - 1)));
+}
+
+function equalIntervalBreaks(sorted: number[], count: number) {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  return Array.from({ length: count + 1 }, (_, i) => min + ((max - min) * i) / count);
+}
+
+function quantileBreaks(sorted: number[], count: number) {
+  return Array.from({ length: count + 1 }, (_, i) =>
+    i === count ? sorted[sorted.length - 1] : sorted[Math.floor((i * sorted.length) / count)]
+  );
+}
+
+function logBreaks(sorted: number[], count: number) {
+  // logarithms need positive values, smaller ones end up in the first class
+  const positive = sorted.filter(v => v > 0);
+  if (!positive.length) return equalIntervalBreaks(sorted, count);
+  const min = Math.log10(positive[0]);
+  const max = Math.log10(positive[positive.length - 1]);
+  const breaks = Array.from({ length: count + 1 }, (_, i) => Math.pow(10, min + ((max - min) * i) / count));
+  breaks[0] = Math.min(breaks[0], sorted[0]);
+  return breaks;
+}
+
+// Fisher-Jenks: minimizes the sum of squared deviations within each class
+function jenksBreaks(sorted: number[], count: number) {
+  const values = sorted.length > JENKS_MAX_VALUES
+    ? quantileBreaks(sorted, JENKS_MAX_VALUES - 1)
+    : sorted;
+  const n = values.length;
+  count = Math.min(count, n);
+
+  // lowerClassLimits[i][j]: first value index of the last class when the first i values form j classes
+  const lowerClassLimits = Array.from({ length: n + 1 }, () => new Int32Array(count + 1));
+  const variances = Array.from({ length: n + 1 }, () => new Float64Array(count + 1).fill(Infinity));
+  for (let j = 1; j <= count; j++) {
+    lowerClassLimits[1][j] = 1;
+    variances[1][j] = 0;
+  }
+
+  for (let i = 2; i <= n; i++) {
+    let sum = 0, sumSquares = 0, variance = 0;
+    for (let m = 1; m <= i; m++) {
+      const lower = i - m + 1;
+      const value = values[lower - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+      if (lower === 1) continue;
+      for (let j = 2; j <= count; j++) {
+        const candidate = variance + variances[lower - 1][j - 1];
+        if (candidate <= variances[i][j]) {
+          lowerClassLimits[i][j] = lower;
+          variances[i][j] = candidate;
+        }
+      }
+    }
+    lowerClassLimits[i][1] = 1;
+    variances[i][1] = variance;
+  }
+
+  const breaks = new Array<number>(count + 1);
+  breaks[count] = values[n - 1];
+  breaks[0] = values[0];
+  for (let j = count, k = n; j > 1; j--) {
+    k = lowerClassLimits[k][j] - 1;
+    breaks[j - 1] = values[k];
+  }
+  return breaks;
+}
+
+/**
+ * Compute the classes for a set of values.
+ * @param values values of the countries to classify, NaN for missing data
+ * @param colors one color per class, ordered from low to high
+ */
+export function classify(values: number[], scheme: ClassificationScheme, colors: string[]): Classification {
+  const sorted = values.filter(v => !isNaN(v)).sort((a, b) => a - b);
+  if (!sorted.length || !colors.length) return { scheme, categories: [] };
+
+  const count = colors.length;
+  const breaks =
+    scheme === 'quantile' ? quantileBreaks(sorted, count) :
+    scheme === 'jenks' ? jenksBreaks(sorted, count) :
+    scheme === 'log' ? logBreaks(sorted, count) :
+    equalIntervalBreaks(sorted, count);
+
+  return {
+    scheme,
+    categories: breaks.slice(0, -1).map((min, i) => ({ min, max: breaks[i + 1], color: colors[i] }))
+  };
+}
+
+export function classColor(value: number, { scheme, categories }: Classification): string {
+  if (isNaN(value) || !categories.length) return NO_DATA_COLOR;
+
+  if (scheme === 'continuous') {
+    const min = categories[0].min;
+    const max = categories[categories.length - 1].max;
+    const t = max === min ? 0 : THREE.MathUtils.clamp((value - min) / (max - min), 0, 1);
+    return interpolateRamp(categories.map(category => category.color), t);
+  }
+
+  // values outside the classified range (other years) clamp to the first or last class
+  const category = categories.find(category => value < category.max) ?? categories[categories.length - 1];
+  return category.color;
+}
+
+// precompute the color of every country and year of a dataset
+export function colorIndicator(dataset: IndicatorDataset, classification: Classification) {
+  for (const iso in dataset.countries) {
+    for (const year in dataset.countries[iso]) {
+      const data = dataset.countries[iso][year];
+      data.color = classColor(data.value, classification);
+    }
+  }
+}
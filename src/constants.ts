@@ -1,16 +0,0 @@
-export const MeshNumber: Record<string, number> = {
-  'Indonesia': 7,
-  'China': 1,
-  'North Korea': 1,
-  'Philippines': 1,
-  'Chile': 1,
-  'South Africa': 1,
-  'Angola': 1,
-  'France': 1,
-  'Russia': 1,
-  'Norway': 1,
-  'United Kingdom': 1,
-  'Greece': 1,
-  'Australia': 1,
-  'Antarctica': 7
-} as const;
\ No newline at end of file
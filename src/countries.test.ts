@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { countryArea, generatePolygonData, parseCountries } from './countries';
+import { seededRandom } from './helper';
+import { DETAIL_LEVELS } from './lod';
+import { outlineOptions } from './outline';
+import geojson from '../public/countries.geo.json?raw';
+
+const countries = parseCountries(JSON.parse(geojson));
+const outline = outlineOptions('countries.geo.json');
+
+describe('generatePolygonData', () => {
+  it.each(DETAIL_LEVELS.map(detail => [detail.name, detail] as const))('triangulates every polygon at the %s level', (_, detail) => {
+    const empty: string[] = [];
+    for (const country of countries) {
+      country.polygons.forEach((polygon, i) => {
+        // rings too short to sample are left out on purpose
+        if (polygon.outer.length < 5) return;
+        const data = generatePolygonData(country.name, polygon, seededRandom(1), detail, outline);
+        if (!data.triangles.length) empty.push(`${country.name} #${i}`);
+      });
+    }
+    expect(empty).toEqual([]);
+  }, 30_000);
+});
+
+describe('countryArea', () => {
+  // a 2° by 2° square around the equator centered on the given longitude
+  const square = (lon: number) => parseCountries({
+    features: [{
+      properties: { name: 'Square' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[lon - 1, -1], [lon + 1, -1], [lon + 1, 1], [lon - 1, 1], [lon - 1, -1]]
+          .map(([x, y]) => [x > 180 ? x - 360 : x, y])]
+      }
+    }]
+  })[0];
+
+  it('measures a ring crossing the antimeridian like any other', () => {
+    const area = countryArea(square(0));
+    // 2° of arc are about 222 km at the equator
+    expect(area).toBeGreaterThan(222 * 222 * 0.99);
+    expect(area).toBeLessThan(222 * 222 * 1.01);
+    expect(countryArea(square(180))).toBeCloseTo(area, 6);
+  });
+
+  it('measures Fiji and Russia, which reach across the antimeridian', () => {
+    const area = (name: string) => countryArea(countries.find(country => country.name === name)!);
+    expect(area('Fiji')).toBeGreaterThan(17_000);
+    expect(area('Fiji')).toBeLessThan(21_000);
+    expect(area('Russia')).toBeGreaterThan(16_000_000);
+    expect(area('Russia')).toBeLessThan(18_000_000);
+  });
+});
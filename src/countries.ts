@@ -1,54 +1,83 @@
 // this module helps load the countries GeoJSON and setup for rendering
 
-import { latLonToSphere, randomColor } from "./helper";
+import * as THREE from "three";
+import { latLonToSphere } from "./helper";
 import { offsetPolygon } from "./offset";
-import type { CountryData, LatLon } from "./types";
+import type { CountryData, LatLon, Polygon, PolygonData, Vec3 } from "./types";
 import { Delaunay2D, type Vec2 } from './delaunate';
+import { preparePolygon, wrapLon } from './preprocess';
+import { DEFAULT_LEVEL, DETAIL_LEVELS, type DetailLevel } from './lod';
+import { DEFAULT_OUTLINE, outlineOptions, preprocessOutline, type OutlineOptions } from './outline';
 
 const LARGE_COUNTRIES = ['Russia', 'Antartica'];
 
+// GeoJSON codes that differ from the ones used by the World Bank
+const ISO_ALIASES: Record<string, string> = {
+  KOS: 'XKX'  // Kosovo
+};
+
+// GeoJSON properties searched besides the name
+const ALIAS_PROPERTIES = ['name', 'name_long', 'formal_en', 'name_sort', 'iso_a3', 'adm0_a3', 'iso_a2'];
+
+const COUNTRIES_URL = '/public/countries.geo.json';
+
 export let countries: CountryData[] = [];
+// how outlines of the loaded dataset are simplified and densified, see outline.ts
+export let outline: OutlineOptions = DEFAULT_OUTLINE;
 
 export async function loadAllCountries() {
-  const res = await fetch('/public/countries.geo.json');
+  const res = await fetch(COUNTRIES_URL);
   const geojson = await res.json();
+  countries = parseCountries(geojson);
+  outline = outlineOptions(COUNTRIES_URL);
+}
 
-  const meshColorUSA = randomColor();
-
-  const meshColorCanada = randomColor();
-
-  countries = geojson.features.map((feature: any) => {
-    let coords: number[][][] = [];
+export function parseCountries(geojson: any): CountryData[] {
+  return geojson.features.map((feature: any, id: number) => {
+    let coords: number[][][][] = [];
 
     if (feature.geometry.type === "Polygon") {
-      coords = feature.geometry.coordinates; // wrap single polygon in an array
+      coords = [feature.geometry.coordinates]; // wrap single polygon in an array
     } else if (feature.geometry.type === "MultiPolygon") {
-      coords = feature.geometry.coordinates.flat(); // flatten MultiPolygon
+      coords = feature.geometry.coordinates;
     }
 
-    const polygons = coords.map(ring =>
-      ring.map(([lon, lat]) => ({ lon, lat }))
-    );
+    // first ring is the outline, the remaining ones are holes (lakes, enclaves)
+    const polygons: Polygon[] = coords.map(([outer, ...holes]) => ({
+      outer: outer.map(([lon, lat]) => ({ lon, lat })),
+      holes: holes.map(ring => ring.map(([lon, lat]) => ({ lon, lat })))
+    }));
 
     const name =feature.properties?.ADMIN || feature.properties?.name || "Unknown";
-
-    const color = name.includes('America') ? meshColorUSA : name.includes('Canada') ? meshColorCanada : randomColor();
+    // Natural Earth uses -99 where no ISO code is assigned
+    const code = [feature.properties?.iso_a3, feature.properties?.adm0_a3].find(code => code && code !== '-99') ?? '';
+    const iso = ISO_ALIASES[code] ?? code;
+    const aliases = ALIAS_PROPERTIES
+      .map(key => feature.properties?.[key])
+      .filter((alias, i, all): alias is string =>
+        typeof alias === 'string' && alias !== '-99' && alias !== name && all.indexOf(alias) === i);
+    if (iso && !aliases.includes(iso)) aliases.push(iso);
 
     return {
+      id,
       name,
+      iso,
+      aliases,
       polygons,
       points: [],
       spherePoints: [],
       triangles: [],
-      pointsMesh: [],
-      edges: [],
-      mesh: [],
-      color
+      meshes: [],
+      color: '#ffffff'  // set by a graph coloring pass, see palettes.ts
     };
   });
 }
 
-export function pointInPolygon(point: LatLon, polygon: LatLon[]): boolean {
+export function pointInPolygon(point: LatLon, polygon: Polygon): boolean {
+  return pointInRing(point, polygon.outer) && !polygon.holes.some(hole => pointInRing(point, hole));
+}
+
+export function pointInRing(point: LatLon, polygon: LatLon[]): boolean {
   if (!point || !polygon || polygon.length < 3) return false; // guard
 
   let inside = false;
@@ -123,13 +152,25 @@ function pointSegmentDistance(px: number, py: number, ax: number, ay: number, bx
   return Math.sqrt(dxp * dxp + dyp * dyp);
 }
 
-export function samplePointsInPolygon(polygon: LatLon[], num: number): LatLon[] {
-  let minLat = Infinity, minLon = Infinity, maxLat = -Infinity, maxLon = -Infinity;
-  // include original polygon in the triangulation
-  let pts: LatLon[] = polygon.map((p, i) => ({ lat: p.lat, lon: p.lon, boundary: true, boundaryIndex: i }));
+// drop the closing point of a GeoJSON ring and repeated vertices
+export function openRing(polygon: LatLon[]): LatLon[] {
+  if (polygon.length < 2) return polygon;
+  return polygon.filter((p, i) => {
+    const next = polygon[(i + 1) % polygon.length];
+    return !(p.lat === next.lat && p.lon === next.lon);
+  });
+}
 
-  if (polygon.length > 100) {
-    const polygonOffsetBoundary: LatLon[] = offsetPolygon(polygon, 0.5).filter(p => pointInPolygon(p, polygon));
+export function samplePointsInPolygon(polygon: Polygon, num: number, random: () => number = Math.random): LatLon[] {
+  let minLat = Infinity, minLon = Infinity, maxLat = -Infinity, maxLon = -Infinity;
+  // include original polygon and its holes in the triangulation
+  let pts: LatLon[] = [polygon.outer, ...polygon.holes].flatMap((ring, r) =>
+    openRing(ring).map((p, i) => ({ lat: p.lat, lon: p.lon, boundary: true, boundaryIndex: i, ring: r }))
+  );
+  const outer = polygon.outer;
+
+  if (outer.length > 100) {
+    const polygonOffsetBoundary: LatLon[] = offsetPolygon(outer, 0.5).filter(p => pointInPolygon(p, polygon));
     pts = [...pts, ...polygonOffsetBoundary];
 
     for (let i = 0; i < polygonOffsetBoundary.length; i++) {
@@ -139,17 +180,17 @@ export function samplePointsInPolygon(polygon: LatLon[], num: number): LatLon[]
       maxLon = Math.max(maxLon, polygonOffsetBoundary[i].lon); 
     }
   } else {
-    for (let i = 0; i < polygon.length; i++) {
-      minLat = Math.min(minLat, polygon[i].lat);
-      minLon = Math.min(minLon, polygon[i].lon);
-      maxLat = Math.max(maxLat, polygon[i].lat);
-      maxLon = Math.max(maxLon, polygon[i].lon); 
+    for (let i = 0; i < outer.length; i++) {
+      minLat = Math.min(minLat, outer[i].lat);
+      minLon = Math.min(minLon, outer[i].lon);
+      maxLat = Math.max(maxLat, outer[i].lat);
+      maxLon = Math.max(maxLon, outer[i].lon); 
     }
   }
 
   while (pts.length < num) {
-    const lat = minLat + Math.random() * (maxLat - minLat);
-    const lon = minLon + Math.random() * (maxLon - minLon);
+    const lat = minLat + random() * (maxLat - minLat);
+    const lon = minLon + random() * (maxLon - minLon);
     if (pointInPolygon({ lat, lon }, polygon)) pts.push({ lat, lon });
   }
   return pts;
@@ -158,32 +199,147 @@ export function samplePointsInPolygon(polygon: LatLon[], num: number): LatLon[]
 
 export function generateCountryData() {
   for (const country of countries) {
-    country.points = [];
-    country.spherePoints = [];
-    country.triangles = [];
-    for (const polygon of country.polygons) {
-      if (polygon.length < 5) {
-        country.points.push([]);
-        country.spherePoints.push([]);
-        country.triangles.push([]);
-        continue;
-      }
+    setPolygonData(country, country.polygons.map(polygon => generatePolygonData(country.name, polygon, Math.random, DETAIL_LEVELS[DEFAULT_LEVEL], outline)));
+  }
+}
+
+/**
+ * @param level detail level of the data, see lod.ts
+ */
+export function setPolygonData(country: CountryData, data: PolygonData[], level = DEFAULT_LEVEL) {
+  const mesh = {
+    points: data.map(d => d.points),
+    spherePoints: data.map(d => d.spherePoints),
+    triangles: data.map(d => d.triangles)
+  };
+  country.meshes[level] = mesh;
+  if (level === DEFAULT_LEVEL) Object.assign(country, mesh);
+}
+
+/**
+ * @param detail outline simplification and refinement and interior density, see lod.ts
+ * @param options how the dataset's outlines are simplified and densified, see outline.ts
+ */
+export function generatePolygonData(
+  name: string,
+  polygon: Polygon,
+  random: () => number = Math.random,
+  detail: DetailLevel = DETAIL_LEVELS[DEFAULT_LEVEL],
+  options: OutlineOptions = DEFAULT_OUTLINE
+): PolygonData {
+  if (polygon.outer.length < 5) {
+    return { points: [], spherePoints: [], triangles: [] };
+  }
+
+  // antimeridian and polar rings are sampled and triangulated in a local projection,
+  // planar coordinates are in degrees of arc so the tolerance applies in both
+  const { polygon: prepared, projection } = preparePolygon(polygon);
+  const planar = preprocessOutline(prepared, detail.tolerance, { ...options, maxSegment: options.maxSegment * detail.segment }, projection);
+
+  const numOfIntermediatePoints = Math.min(LARGE_COUNTRIES.includes(name) ? 2000 : 1000, Math.max(polygonArea2D(planar), 100)) * detail.density;
+  const planarPoints = samplePointsInPolygon(planar, numOfIntermediatePoints, random);
+
+  const flat = planarPoints.map(p => ({ x: p.lon, y: p.lat }));
+
+  let triangulated: ReturnType<typeof triangulate2D> | undefined;
+  try {
+    triangulated = triangulate2D(flat, ringEdges(planarPoints));
+  } catch {
+    // rings that cross after simplifying or splitting their edges, handled below
+  }
+  // an outline simplified or refined beyond the default one that fails to
+  // triangulate is not worth losing the polygon, it falls back to the default outline
+  if (!triangulated?.triangles.length && (detail.tolerance > 0 || detail.segment !== 1)) {
+    return generatePolygonData(name, polygon, random, { ...detail, tolerance: 0, segment: 1 }, options);
+  }
+  const { triangles, steiner } = triangulated ?? { triangles: [], steiner: [] };
+  planarPoints.push(...steiner.map(p => ({ lon: p.x, lat: p.y })));
+  const points = projection ? planarPoints.map(projection.inverse) : planarPoints;
+
+  return {
+    points,
+    spherePoints: points.map(p => latLonToSphere(p.lat, p.lon)),
+    triangles
+  };
+}
 
-      const numOfIntermediatePoints = Math.min(LARGE_COUNTRIES.includes(country.name) ? 2000 : 1000, Math.max(polygonArea2D(polygon), 100));
-      const points = samplePointsInPolygon(polygon, numOfIntermediatePoints);
+// index of the polygon with the largest lon/lat area, the mainland of most countries
+export function largestPolygon(country: CountryData): number {
+  let largest = 0;
+  country.polygons.forEach((polygon, i) => {
+    if (polygonArea2D(polygon) > polygonArea2D(country.polygons[largest])) largest = i;
+  });
+  return largest;
+}
 
-      const flat = points.map(p => ({ x: p.lon, y: p.lat }));
+// point on the unit sphere at the middle of the country's largest polygon
+export function countryCentroid(country: CountryData): Vec3 {
+  const largest = largestPolygon(country);
+  const sum = { x: 0, y: 0, z: 0 };
+  for (const p of country.spherePoints[largest] ?? []) {
+    sum.x += p.x; sum.y += p.y; sum.z += p.z;
+  }
+  const length = Math.hypot(sum.x, sum.y, sum.z) || 1;
+  return { x: sum.x / length, y: sum.y / length, z: sum.z / length };
+}
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+/**
+ * Area of a country on the sphere in km², outlines minus holes.
+ */
+export function countryArea(country: CountryData): number {
+  return country.polygons.reduce((sum, polygon) =>
+    sum + Math.abs(sphericalRingArea(polygon.outer))
+      - polygon.holes.reduce((holes, hole) => holes + Math.abs(sphericalRingArea(hole)), 0), 0);
+}
+
+// signed area of a ring on the sphere, from the spherical excess of its edges
+function sphericalRingArea(ring: LatLon[]): number {
+  let total = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    // edges crossing the antimeridian go the short way round
+    total += THREE.MathUtils.degToRad(wrapLon(b.lon - a.lon))
+      * (2 + Math.sin(THREE.MathUtils.degToRad(a.lat)) + Math.sin(THREE.MathUtils.degToRad(b.lat)));
+  }
+  return (total * EARTH_RADIUS_KM * EARTH_RADIUS_KM) / 2;
+}
 
-      const triangles = triangulate2D(flat);
+/**
+ * Countries sharing a border, found from the vertices their rings have in common.
+ * @returns the ids of the neighbors of each country, indexed by country id
+ */
+export function countryNeighbors(countries: CountryData[]): Set<number>[] {
+  const owners = new Map<string, Set<number>>();
+  for (const country of countries) {
+    for (const polygon of country.polygons) {
+      for (const ring of [polygon.outer, ...polygon.holes]) {
+        for (const { lon, lat } of ring) {
+          const key = `${lon.toFixed(6)},${lat.toFixed(6)}`;
+          let ids = owners.get(key);
+          if (!ids) owners.set(key, ids = new Set());
+          ids.add(country.id);
+        }
+      }
+    }
+  }
 
-      country.points.push(points);
-      country.spherePoints.push([...points.map(p => latLonToSphere(p.lat, p.lon))]);
-      country.triangles.push(triangles);
+  const neighbors = countries.map(() => new Set<number>());
+  for (const ids of owners.values()) {
+    for (const id of ids) {
+      for (const other of ids) if (other !== id) neighbors[id].add(other);
     }
   }
+  return neighbors;
+}
+
+function polygonArea2D(polygon: Polygon): number {
+  return [polygon.outer, ...polygon.holes].reduce((area, ring, r) => area + (r === 0 ? 1 : -1) * ringArea2D(ring), 0);
 }
 
-function polygonArea2D(polygon: LatLon[]): number {
+function ringArea2D(polygon: LatLon[]): number {
   let area = 0;
   const n = polygon.length;
   for (let i = 0; i < n; i++) {
@@ -193,14 +349,47 @@ function polygonArea2D(polygon: LatLon[]): number {
   return Math.abs(area) / 2;
 }
 
-export function allEdgesAreBoundary(pA: LatLon, pB: LatLon, pC: LatLon): boolean {
-  return (!!pA.boundary && !!pB.boundary && !!pC.boundary);
+// consecutive boundary points of the same ring form the segments of that ring
+function ringEdges(points: LatLon[]): [number, number][] {
+  const rings = new Map<number, { p: LatLon, i: number }[]>();
+  points.forEach((p, i) => {
+    if (!p.boundary) return;
+    const ring = p.ring ?? 0;
+    if (!rings.has(ring)) rings.set(ring, []);
+    rings.get(ring)!.push({ p, i });
+  });
+
+  const edges: [number, number][] = [];
+  for (const ring of rings.values()) {
+    const boundary = ring
+      .sort((a, b) => a.p.boundaryIndex! - b.p.boundaryIndex!)
+      .map(({ i }) => i);
+    boundary.forEach((idx, i) => edges.push([idx, boundary[(i + 1) % boundary.length]]));
+  }
+  return edges;
 }
 
-// --- Triangulate 2D using Delaunay ---
-function triangulate2D(flatPoints: Vec2[]): [number, number, number][] {
+// --- Triangulate 2D using constrained Delaunay ---
+// points added to split ring edges follow the given ones, see Delaunay2D.steiner
+function triangulate2D(flatPoints: Vec2[], edges: [number, number][]): { triangles: [number, number, number][], steiner: Vec2[] } {
+  // (nearly) coincident points would otherwise replace each other during insertion
+  const firstIndex = new Map<string, number>();
+  const canonical = flatPoints.map((p, i) => {
+    const key = `${Math.round(p.x * 1e7)},${Math.round(p.y * 1e7)}`;
+    if (!firstIndex.has(key)) firstIndex.set(key, i);
+    return firstIndex.get(key)!;
+  });
+
   const delaunay = new Delaunay2D(flatPoints);
-  for (let i = 0; i < flatPoints.length; i++) delaunay.insertPoint(i);
+  for (let i = 0; i < flatPoints.length; i++) {
+    if (canonical[i] === i) delaunay.insertPoint(i);
+  }
+  for (const [a, b] of edges) delaunay.insertConstraint(canonical[a], canonical[b]);
   delaunay.finalize();
-  return delaunay.triangles.map(t => [t.a, t.b, t.c] as [number, number, number]);
+  const index = new Map(delaunay.steiner.map((idx, k) => [idx, flatPoints.length + k]));
+  const at = (idx: number) => index.get(idx) ?? idx;
+  return {
+    triangles: delaunay.triangles.map(t => [at(t.a), at(t.b), at(t.c)] as [number, number, number]),
+    steiner: delaunay.steiner.map(idx => delaunay.points[idx])
+  };
 }
\ No newline at end of file
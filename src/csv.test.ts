@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createCSVParser, parseCSV } from './csv';
+import wdi from '../public/API_SP.POP.TOTL_DS2_en_csv_v2_34.csv?raw';
+
+describe('parseCSV', () => {
+  it('splits records on CRLF and LF', () => {
+    expect(parseCSV('a,b\r\nc,d\ne,f')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f']]);
+  });
+
+  it('keeps commas and line breaks inside quoted fields', () => {
+    expect(parseCSV('"Korea, Rep.","a\r\nb"\r\n')).toEqual([['Korea, Rep.', 'a\r\nb']]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCSV('"say ""hi""",""""')).toEqual([['say "hi"', '"']]);
+  });
+
+  it('drops a leading byte order mark', () => {
+    expect(parseCSV('\uFEFF"a",b')).toEqual([['a', 'b']]);
+  });
+
+  it('keeps empty and quoted empty fields', () => {
+    expect(parseCSV('a,,\n')).toEqual([['a', '', '']]);
+    expect(parseCSV('""')).toEqual([['']]);
+    expect(parseCSV('a,""')).toEqual([['a', '']]);
+  });
+
+  it('treats blank lines as empty records', () => {
+    expect(parseCSV('a\r\n\r\nb\r\n')).toEqual([['a'], [''], ['b']]);
+  });
+
+  it('throws on an unterminated quoted field', () => {
+    expect(() => parseCSV('"a,b')).toThrow();
+  });
+
+  it('gives the same rows however the text is chunked', () => {
+    const text = 'x,"a ""b"", c"\r\n"\r\n",y\r\n';
+    for (let size = 1; size <= text.length; size++) {
+      const rows: string[][] = [];
+      const parser = createCSVParser(row => rows.push(row));
+      for (let i = 0; i < text.length; i += size) parser.push(text.slice(i, i + size));
+      parser.end();
+      expect(rows).toEqual(parseCSV(text));
+    }
+  });
+
+  it('parses the WDI population export', () => {
+    expect(wdi.startsWith('\uFEFF')).toBe(true);
+    expect(wdi).toContain('\r\n');
+
+    const rows = parseCSV(wdi);
+    expect(rows[0]).toEqual(['Data Source', 'World Development Indicators', '']);
+    const korea = rows.find(row => row[1] === 'KOR');
+    const egypt = rows.find(row => row[1] === 'EGY');
+    expect(korea?.[0]).toBe('Korea, Rep.');
+    expect(egypt?.[0]).toBe('Egypt, Arab Rep.');
+
+    const headerIndex = rows.findIndex(row => row[0] === 'Country Name');
+    const records = rows.slice(headerIndex).filter(row => row.length > 1);
+    expect(records.every(row => row.length === rows[headerIndex].length)).toBe(true);
+  });
+});
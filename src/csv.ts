@@ -0,0 +1,87 @@
+// this module parses CSV text as described in RFC 4180: quoted fields may contain
+// commas, line breaks and doubled quotes, records end with CRLF or LF.
+// the parser is fed in chunks so a response can be parsed while it downloads
+
+export function createCSVParser(onRow: (row: string[]) => void) {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;        // inside a quoted field
+  let quoteSeen = false;     // last char inside a quoted field was a quote
+  let wasQuoted = false;     // current field opened with a quote, so it exists even if empty
+  let start = true;          // nothing read yet, a byte order mark may follow
+  let pendingCR = false;     // CR at the end of the previous chunk
+
+  function endField() {
+    row.push(field);
+    field = '';
+    wasQuoted = false;
+  }
+
+  function endRow() {
+    endField();
+    onRow(row);
+    row = [];
+  }
+
+  return {
+    push(chunk: string) {
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i];
+
+        if (start) {
+          start = false;
+          if (char === '\uFEFF') continue;
+        }
+
+        if (pendingCR) {
+          pendingCR = false;
+          if (char === '\n') continue;
+        }
+
+        if (quoted) {
+          if (quoteSeen) {
+            quoteSeen = false;
+            if (char === '"') {
+              field += '"';  // escaped quote
+              continue;
+            }
+            quoted = false;  // closing quote, handle char below
+          } else {
+            if (char === '"') quoteSeen = true;
+            else field += char;
+            continue;
+          }
+        }
+
+        if (char === '"' && field === '') {
+          quoted = true;
+          wasQuoted = true;
+        } else if (char === ',') {
+          endField();
+        } else if (char === '\r') {
+          endRow();
+          pendingCR = true;
+        } else if (char === '\n') {
+          endRow();
+        } else {
+          field += char;
+        }
+      }
+    },
+
+    // flushes the last record when the text does not end with a line break
+    end() {
+      if (quoteSeen) quoted = false;
+      if (quoted) throw new Error('CSV ended inside a quoted field');
+      if (field !== '' || wasQuoted || row.length) endRow();
+    }
+  };
+}
+
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  const parser = createCSVParser(row => rows.push(row));
+  parser.push(text);
+  parser.end();
+  return rows;
+}
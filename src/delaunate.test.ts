@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Delaunay2D, type Vec2 } from './delaunate';
+
+// constrained triangulation of the rings, given as index lists into points
+function triangulate(points: Vec2[], rings: number[][]) {
+  const delaunay = new Delaunay2D(points);
+  points.forEach((_, i) => delaunay.insertPoint(i));
+  for (const ring of rings) ring.forEach((a, i) => delaunay.insertConstraint(a, ring[(i + 1) % ring.length]));
+  delaunay.finalize();
+  return delaunay;
+}
+
+function area({ points, triangles }: Delaunay2D) {
+  return triangles.reduce((sum, { a, b, c }) => {
+    const A = points[a], B = points[b], C = points[c];
+    return sum + Math.abs((B.x - A.x) * (C.y - A.y) - (B.y - A.y) * (C.x - A.x)) / 2;
+  }, 0);
+}
+
+function hasEdge({ triangles }: Delaunay2D, a: number, b: number) {
+  return triangles.some(t => [t.a, t.b, t.c].includes(a) && [t.a, t.b, t.c].includes(b));
+}
+
+describe('Delaunay2D', () => {
+  it('keeps the notch of a concave ring empty', () => {
+    // a U open at the top, the notch between x 1 and 2 reaches down to y 1
+    const points = [
+      { x: 0, y: 0 }, { x: 3, y: 0 }, { x: 3, y: 3 }, { x: 2, y: 3 },
+      { x: 2, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 3 }, { x: 0, y: 3 },
+      { x: 0.5, y: 2 }, { x: 2.5, y: 2 }, { x: 1.5, y: 0.5 }
+    ];
+    const delaunay = triangulate(points, [[0, 1, 2, 3, 4, 5, 6, 7]]);
+    expect(area(delaunay)).toBeCloseTo(9 - 2);
+    for (let i = 0; i < 8; i++) expect(hasEdge(delaunay, i, (i + 1) % 8)).toBe(true);
+  });
+
+  it('keeps a hole empty', () => {
+    const points = [
+      { x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }, { x: 0, y: 4 },
+      { x: 1, y: 1 }, { x: 3, y: 1 }, { x: 3, y: 3 }, { x: 1, y: 3 },
+      { x: 0.5, y: 0.5 }, { x: 3.5, y: 3.5 }, { x: 2, y: 0.5 }
+    ];
+    const delaunay = triangulate(points, [[0, 1, 2, 3], [4, 5, 6, 7]]);
+    expect(area(delaunay)).toBeCloseTo(16 - 4);
+    for (const { a, b, c } of delaunay.triangles) {
+      const x = (points[a].x + points[b].x + points[c].x) / 3;
+      const y = (points[a].y + points[b].y + points[c].y) / 3;
+      expect(x > 1 && x < 3 && y > 1 && y < 3).toBe(false);
+    }
+  });
+
+  it('splits a constraint at a vertex lying on it', () => {
+    // the point at x 2 lies on the bottom edge, other points pull the
+    // Delaunay edges across it
+    const points = [
+      { x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 1 }, { x: 0, y: 1 },
+      { x: 2, y: 0 }, { x: 1, y: 0.05 }, { x: 3, y: 0.05 }
+    ];
+    const delaunay = triangulate(points, [[0, 1, 2, 3]]);
+    expect(area(delaunay)).toBeCloseTo(4);
+    expect(delaunay.constraints.has('0-4')).toBe(true);
+    expect(delaunay.constraints.has('1-4')).toBe(true);
+    expect(delaunay.constraints.has('0-1')).toBe(false);
+  });
+
+  it('inserts a constraint passing close by a vertex', () => {
+    // a long thin diamond, the vertex below the diagonal almost touches it
+    const points = [
+      { x: 0, y: 0 }, { x: 10, y: -1e-9 }, { x: 20, y: 0 }, { x: 10, y: 1 },
+      { x: 5, y: 0.01 }, { x: 15, y: 0.01 }, { x: 10, y: 0.5 }
+    ];
+    const delaunay = triangulate(points, [[0, 1, 2, 3]]);
+    expect(hasEdge(delaunay, 0, 1)).toBe(true);
+    expect(hasEdge(delaunay, 1, 2)).toBe(true);
+    expect(area(delaunay)).toBeCloseTo(10 + 1e-8);
+  });
+
+  it('splits a constraint at its midpoint when the crossed triangles cannot be replaced', () => {
+    // points within rounding error of the diagonal 2-0 break the walk around the crossed triangles
+    const points = [
+      { x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 1 }, { x: 0, y: 1 },
+      { x: 5.9498094650916755, y: 0.5949809455593891 }, { x: 4.447033870965242, y: 0.4447033871106091 },
+      { x: 0.952401862014085, y: 0.09524018620140673 }, { x: 6.594679036643356, y: 0.6594679019895093 },
+      { x: 8.334498109761626, y: 0.8334498110037892 }, { x: 3.7978808977641165, y: 0.3797880897747607 }
+    ];
+    const delaunay = triangulate(points, [[0, 1, 2]]);
+    expect(delaunay.steiner.length).toBeGreaterThan(0);
+    expect(area(delaunay)).toBeCloseTo(5);
+  });
+
+  it('records only constraints that are edges of the triangulation', () => {
+    const points = [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 2 }, { x: 0, y: 2 }, { x: 1, y: 0.2 }, { x: 1, y: 1.8 }];
+    const delaunay = triangulate(points, [[0, 1, 2, 3]]);
+    for (const key of delaunay.constraints) {
+      const [a, b] = key.split('-').map(Number);
+      expect(hasEdge(delaunay, a, b)).toBe(true);
+    }
+  });
+
+  it('throws when rings cross each other', () => {
+    // a bow tie, the edges 0-1 and 2-3 cross in the middle
+    const points = [{ x: 0, y: 0 }, { x: 2, y: 2 }, { x: 2, y: 0 }, { x: 0, y: 2 }, { x: 1, y: 0.2 }, { x: 1, y: 1.8 }];
+    expect(() => triangulate(points, [[0, 1, 2, 3]])).toThrow(/crosses/);
+  });
+});
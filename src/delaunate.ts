@@ -1,5 +1,7 @@
 // delaunate.ts
-// Simple Bowyer–Watson Delaunay triangulation in TypeScript
+// Simple Bowyer–Watson Delaunay triangulation in TypeScript,
+// with optional constrained edges (boundary rings) and parity based
+// removal of triangles that fall outside the rings or inside holes
 
 export interface Vec2 { x: number; y: number; boundary?: boolean; }
 
@@ -10,9 +12,42 @@ export interface Triangle {
   circum?: { x: number; y: number; r2: number };
 }
 
+const edgeKey = (a: number, b: number) => a < b ? `${a}-${b}` : `${b}-${a}`;
+
+// a constraint that cannot be inserted is split at its midpoint at most this many times
+const MAX_SPLITS = 8;
+
+function orient(A: Vec2, B: Vec2, C: Vec2) {
+  return (B.x - A.x) * (C.y - A.y) - (B.y - A.y) * (C.x - A.x);
+}
+
+function inCircle(A: Vec2, B: Vec2, C: Vec2, P: Vec2) {
+  const ax = A.x - P.x, ay = A.y - P.y;
+  const bx = B.x - P.x, by = B.y - P.y;
+  const cx = C.x - P.x, cy = C.y - P.y;
+  const det = (ax * ax + ay * ay) * (bx * cy - cx * by) -
+              (bx * bx + by * by) * (ax * cy - cx * ay) +
+              (cx * cx + cy * cy) * (ax * by - bx * ay);
+  // sign of the determinant depends on the winding of A, B, C
+  return orient(A, B, C) > 0 ? det > 0 : det < 0;
+}
+
+function segmentsCross(A: Vec2, B: Vec2, C: Vec2, D: Vec2) {
+  const d1 = orient(A, B, C), d2 = orient(A, B, D);
+  const d3 = orient(C, D, A), d4 = orient(C, D, B);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+         ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
 export class Delaunay2D {
   points: Vec2[];
   triangles: Triangle[] = [];
+  constraints = new Set<string>();
+  // points added at the midpoints of constraints that could not be inserted whole,
+  // they follow the super triangle in `points`
+  steiner: number[] = [];
+  private inserted = new Set<number>();
+  private superIdx = 0;
 
   constructor(points: Vec2[]) {
     this.points = [...points];
@@ -36,7 +71,7 @@ export class Delaunay2D {
     const p2 = { x: cx, y: cy + 20 * d };
     const p3 = { x: cx + 20 * d, y: cy - d };
 
-    const i1 = this.points.push(p1) - 1;
+    const i1 = this.superIdx = this.points.push(p1) - 1;
     const i2 = this.points.push(p2) - 1;
     const i3 = this.points.push(p3) - 1;
 
@@ -47,23 +82,27 @@ export class Delaunay2D {
     const A = this.points[aIdx];
     const B = this.points[bIdx];
     const C = this.points[cIdx];
-    const d = 2 * (A.x * (B.y - C.y) + B.x * (C.y - A.y) + C.x * (A.y - B.y));
-    if (Math.abs(d) < 1e-12) return { x: Infinity, y: Infinity, r2: Infinity };
+    // relative to A to keep precision for points that are close together
+    const bx = B.x - A.x, by = B.y - A.y;
+    const cx = C.x - A.x, cy = C.y - A.y;
+    const d = 2 * (bx * cy - by * cx);
+    if (Math.abs(d) < 1e-24) return { x: Infinity, y: Infinity, r2: Infinity };
 
-    const ux = ((A.x ** 2 + A.y ** 2) * (B.y - C.y) +
-                (B.x ** 2 + B.y ** 2) * (C.y - A.y) +
-                (C.x ** 2 + C.y ** 2) * (A.y - B.y)) / d;
-    const uy = ((A.x ** 2 + A.y ** 2) * (C.x - B.x) +
-                (B.x ** 2 + B.y ** 2) * (A.x - C.x) +
-                (C.x ** 2 + C.y ** 2) * (B.x - A.x)) / d;
+    const b2 = bx * bx + by * by;
+    const c2 = cx * cx + cy * cy;
+    const ox = (cy * b2 - by * c2) / d;
+    const oy = (bx * c2 - cx * b2) / d;
 
-    const r2 = (ux - A.x) ** 2 + (uy - A.y) ** 2;
+    const ux = A.x + ox;
+    const uy = A.y + oy;
+    const r2 = ox * ox + oy * oy;
     return { x: ux, y: uy, r2 };
   }
 
   public insertPoint(idx: number) {
     const P = this.points[idx];
     const bad: Triangle[] = [];
+    this.inserted.add(idx);
 
     // Find triangles whose circumcircle contains P
     for (const t of this.triangles) {
@@ -100,11 +139,200 @@ export class Delaunay2D {
     }
   }
 
+  private hasEdge(a: number, b: number) {
+    return this.triangles.some(t =>
+      (t.a === a || t.b === a || t.c === a) && (t.a === b || t.b === b || t.c === b)
+    );
+  }
+
+  /**
+   * Force the segment a-b into the triangulation. All points must be
+   * inserted before the first constraint. A segment whose crossed triangles
+   * cannot be replaced is split at its midpoint, see `steiner`.
+   * @param a index of the first endpoint
+   * @param b index of the second endpoint
+   * @param splits times the constraint was split at a midpoint already
+   * @throws when the segment crosses another constraint or cannot be inserted
+   *   even after splitting it
+   */
+  public insertConstraint(a: number, b: number, splits = 0) {
+    if (a === b) return;
+    const A = this.points[a];
+    const B = this.points[b];
+
+    // a vertex lying on the segment splits it in two constraints
+    const len2 = (B.x - A.x) ** 2 + (B.y - A.y) ** 2;
+    for (const v of this.inserted) {
+      if (v === a || v === b) continue;
+      const V = this.points[v];
+      if (Math.abs(orient(A, B, V)) > 1e-12 * len2) continue;
+      const t = ((V.x - A.x) * (B.x - A.x) + (V.y - A.y) * (B.y - A.y)) / len2;
+      if (t > 0 && t < 1) {
+        this.insertConstraint(a, v, splits);
+        this.insertConstraint(v, b, splits);
+        return;
+      }
+    }
+
+    // only edges really in the triangulation are recorded, removeOutside would leak through others
+    if (this.hasEdge(a, b) || this.replaceCrossed(a, b)) {
+      this.constraints.add(edgeKey(a, b));
+      return;
+    }
+    if (splits >= MAX_SPLITS) throw new Error(`Constraint ${a}-${b} could not be inserted`);
+
+    const m = this.points.push({ x: (A.x + B.x) / 2, y: (A.y + B.y) / 2 }) - 1;
+    this.steiner.push(m);
+    this.insertPoint(m);
+    this.restoreConstraints(splits + 1);
+    this.insertConstraint(a, m, splits + 1);
+    this.insertConstraint(m, b, splits + 1);
+  }
+
+  // inserting a point after the constraints can remove some of them again
+  private restoreConstraints(splits: number) {
+    for (const key of [...this.constraints]) {
+      const [u, v] = key.split('-').map(Number);
+      if (this.hasEdge(u, v)) continue;
+      this.constraints.delete(key);
+      this.insertConstraint(u, v, splits);
+    }
+  }
+
+  /**
+   * Replace the triangles crossed by the segment a-b with triangles on both
+   * sides of it.
+   * @returns false when the outline of the crossed triangles cannot be walked
+   * @throws when the segment crosses a constraint inserted before
+   */
+  private replaceCrossed(a: number, b: number): boolean {
+    const A = this.points[a];
+    const B = this.points[b];
+
+    // remove every triangle crossed by the segment
+    const crossed = this.triangles.filter(t =>
+      [[t.a, t.b], [t.b, t.c], [t.c, t.a]].some(([u, v]) =>
+        u !== a && u !== b && v !== a && v !== b &&
+        segmentsCross(A, B, this.points[u], this.points[v])
+      )
+    );
+    if (crossed.length === 0) return false;
+    // splitting does not help when the rings themselves cross
+    for (const t of crossed) {
+      for (const [u, v] of [[t.a, t.b], [t.b, t.c], [t.c, t.a]]) {
+        if (this.constraints.has(edgeKey(u, v)) && segmentsCross(A, B, this.points[u], this.points[v])) {
+          throw new Error(`Constraint ${a}-${b} crosses the constraint ${u}-${v}`);
+        }
+      }
+    }
+
+    const edgeCount = new Map<string, [number, number, number]>();
+    for (const t of crossed) {
+      [[t.a, t.b], [t.b, t.c], [t.c, t.a]].forEach(([u, v]) => {
+        const k = edgeKey(u, v);
+        const e = edgeCount.get(k);
+        edgeCount.set(k, [u, v, e ? e[2] + 1 : 1]);
+      });
+    }
+
+    // walk the cavity outline from a to b on both sides of the segment
+    const neighbours = new Map<number, number[]>();
+    for (const [u, v, count] of edgeCount.values()) {
+      if (count !== 1) continue;
+      neighbours.set(u, [...(neighbours.get(u) || []), v]);
+      neighbours.set(v, [...(neighbours.get(v) || []), u]);
+    }
+    const start = neighbours.get(a);
+    if (!start || start.length !== 2) return false;
+
+    const chains: number[][] = [];
+    for (const first of start) {
+      const chain: number[] = [];
+      let prev = a, cur = first;
+      while (cur !== b) {
+        chain.push(cur);
+        const next = neighbours.get(cur)?.find(n => n !== prev);
+        if (next === undefined || chain.length > neighbours.size) return false;
+        prev = cur;
+        cur = next;
+      }
+      chains.push(chain);
+    }
+
+    this.triangles = this.triangles.filter(t => !crossed.includes(t));
+    for (const chain of chains) this.triangulatePseudoPolygon(a, b, chain);
+    return true;
+  }
+
+  // Delaunay triangulation of the polygon a, ...chain, b closed by the edge a-b
+  private triangulatePseudoPolygon(a: number, b: number, chain: number[]) {
+    if (chain.length === 0) return;
+    const A = this.points[a];
+    const B = this.points[b];
+    let ci = 0;
+    for (let i = 1; i < chain.length; i++) {
+      if (inCircle(A, B, this.points[chain[ci]], this.points[chain[i]])) ci = i;
+    }
+    const c = chain[ci];
+    this.triangles.push({ a, b, c, circum: this.computeCircum(a, b, c) });
+    this.triangulatePseudoPolygon(a, c, chain.slice(0, ci));
+    this.triangulatePseudoPolygon(c, b, chain.slice(ci + 1));
+  }
+
+  private isSuper(idx: number) {
+    return idx >= this.superIdx && idx < this.superIdx + 3;
+  }
+
+  // flood fill from the super triangle; every constrained edge crossed
+  // flips between outside and inside, so holes come out as outside again
+  private removeOutside() {
+    const edgeTriangles = new Map<string, number[]>();
+    this.triangles.forEach((t, i) => {
+      [[t.a, t.b], [t.b, t.c], [t.c, t.a]].forEach(([u, v]) => {
+        const k = edgeKey(u, v);
+        edgeTriangles.set(k, [...(edgeTriangles.get(k) || []), i]);
+      });
+    });
+
+    const depth = new Array<number>(this.triangles.length).fill(-1);
+    let layer = this.triangles
+      .map((t, i) => (this.isSuper(t.a) || this.isSuper(t.b) || this.isSuper(t.c)) ? i : -1)
+      .filter(i => i >= 0);
+    let d = 0;
+
+    while (layer.length) {
+      const next: number[] = [];
+      const stack = layer.filter(i => depth[i] === -1);
+      stack.forEach(i => depth[i] = d);
+      while (stack.length) {
+        const t = this.triangles[stack.pop()!];
+        for (const [u, v] of [[t.a, t.b], [t.b, t.c], [t.c, t.a]]) {
+          const k = edgeKey(u, v);
+          for (const n of edgeTriangles.get(k) || []) {
+            if (depth[n] !== -1) continue;
+            if (this.constraints.has(k)) {
+              next.push(n);
+            } else {
+              depth[n] = d;
+              stack.push(n);
+            }
+          }
+        }
+      }
+      layer = next;
+      d++;
+    }
+
+    this.triangles = this.triangles.filter((_, i) => depth[i] % 2 === 1);
+  }
+
   public finalize() {
-    const superIdx = this.points.length - 3;
-    const superSet = new Set([superIdx, superIdx + 1, superIdx + 2]);
+    if (this.constraints.size) {
+      this.removeOutside();
+      return;
+    }
     this.triangles = this.triangles.filter(t =>
-      !superSet.has(t.a) && !superSet.has(t.b) && !superSet.has(t.c)
+      !this.isSuper(t.a) && !this.isSuper(t.b) && !this.isSuper(t.c)
     );
   }
 }
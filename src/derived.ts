@@ -0,0 +1,68 @@
+// this module computes indicators derived from the population totals:
+// density, growth rates and share of the world population
+
+import { countryArea } from './countries';
+import type { CountryData, IndicatorDataset, IndicatorValue } from './types';
+
+export const WORLD_ISO = 'WLD';
+
+type YearlyValues = Record<string, IndicatorValue>;
+
+function derive(
+  population: IndicatorDataset,
+  { code, name, unit, signed }: Pick<IndicatorDataset, 'code' | 'name' | 'unit' | 'signed'>,
+  compute: (iso: string, years: YearlyValues, year: number) => number
+): IndicatorDataset {
+  const countries: IndicatorDataset['countries'] = {};
+  for (const iso in population.countries) {
+    const years = population.countries[iso];
+    countries[iso] = {};
+    for (const year in years) {
+      countries[iso][year] = { value: compute(iso, years, Number(year)), color: '' };
+    }
+  }
+  return {
+    title: population.title,
+    lastUpdated: population.lastUpdated,
+    name,
+    code,
+    unit,
+    signed,
+    names: population.names,
+    countries
+  };
+}
+
+// average yearly growth in percent over the `span` years before `year`
+function growthRate(years: YearlyValues, year: number, span: number) {
+  const from = years[year - span]?.value ?? NaN;
+  const to = years[year]?.value ?? NaN;
+  if (!(from > 0)) return NaN;
+  return (Math.pow(to / from, 1 / span) - 1) * 100;
+}
+
+/**
+ * @param population the SP.POP.TOTL dataset, including its World row
+ * @param countries areas for density are taken from their polygons
+ */
+export function derivedIndicators(population: IndicatorDataset, countries: CountryData[]): IndicatorDataset[] {
+  // the GeoJSON repeats some features, so only the largest feature per code is counted
+  const areas: Record<string, number> = {};
+  for (const country of countries) {
+    if (!country.iso) continue;
+    areas[country.iso] = Math.max(areas[country.iso] ?? 0, countryArea(country));
+  }
+
+  const world = population.countries[WORLD_ISO];
+
+  return [
+    derive(population, { code: 'derived.density', name: 'Population density (people per km²)', unit: ' /km²' },
+      (iso, years, year) => areas[iso] ? years[year].value / areas[iso] : NaN),
+    derive(population, { code: 'derived.growth', name: 'Population growth, year over year (%)', unit: '%', signed: true },
+      (_, years, year) => growthRate(years, year, 1)),
+    derive(population, { code: 'derived.growth10', name: 'Population growth, 10-year yearly average (%)', unit: '%', signed: true },
+      (_, years, year) => growthRate(years, year, 10)),
+    derive(population, { code: 'derived.share', name: 'Share of world population (%)', unit: '%' },
+      (_, years, year) => world?.[year]?.value ? (years[year].value / world[year].value) * 100 : NaN)
+  ];
+}
@@ -0,0 +1,232 @@
+// this module exports the view: PNG images rendered offscreen at any resolution,
+// WebM videos recorded from a canvas, and the country meshes for other tools
+
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import type { CountryData } from './types';
+
+export const IMAGE_SIZES: { value: string, label: string }[] = [
+  { value: 'screen', label: 'Screen' },
+  { value: '1920x1080', label: '1920 × 1080 (Full HD)' },
+  { value: '2560x1440', label: '2560 × 1440 (QHD)' },
+  { value: '3840x2160', label: '3840 × 2160 (4K)' }
+];
+
+// preferred first, browsers differ in the codecs they record
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// lookup tables from target values to image bytes, built on first use
+let lookups: Record<'half' | 'byte', { color: Uint8Array, alpha: Uint8Array }> | undefined;
+
+// render targets hold linear colors, images need sRGB bytes
+function linearToSRGB(value: number) {
+  const c = THREE.MathUtils.clamp(value, 0, 1);
+  const srgb = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return Math.round(srgb * 255);
+}
+
+function createLookups() {
+  const halfFloat = (i: number) => THREE.DataUtils.fromHalfFloat(i);
+  return {
+    half: {
+      color: Uint8Array.from({ length: 65536 }, (_, i) => linearToSRGB(halfFloat(i))),
+      alpha: Uint8Array.from({ length: 65536 }, (_, i) => Math.round(THREE.MathUtils.clamp(halfFloat(i), 0, 1) * 255))
+    },
+    byte: {
+      color: Uint8Array.from({ length: 256 }, (_, i) => linearToSRGB(i / 255)),
+      alpha: Uint8Array.from({ length: 256 }, (_, i) => i)
+    }
+  };
+}
+
+/**
+ * Render into an offscreen target and read it back as a canvas.
+ * Half float targets keep dark colors free of banding, bytes are the fallback.
+ * @param render draws the scene into the target, see WebGLRenderTarget.viewport
+ */
+export function renderImage(
+  renderer: THREE.WebGLRenderer,
+  width: number,
+  height: number,
+  render: (target: THREE.WebGLRenderTarget) => void
+): HTMLCanvasElement {
+  const max = renderer.capabilities.maxTextureSize;
+  if (width > max || height > max) throw new Error(`Image size ${width}×${height} exceeds the GPU limit of ${max}`);
+
+  const halfFloat = renderer.capabilities.textureTypeReadable(THREE.HalfFloatType);
+  const target = new THREE.WebGLRenderTarget(width, height, {
+    type: halfFloat ? THREE.HalfFloatType : THREE.UnsignedByteType,
+    samples: Math.min(4, renderer.capabilities.maxSamples)
+  });
+  const previous = renderer.getRenderTarget();
+  renderer.setRenderTarget(target);
+  render(target);
+  renderer.setRenderTarget(previous);
+
+  const pixels = halfFloat ? new Uint16Array(width * height * 4) : new Uint8Array(width * height * 4);
+  renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+  target.dispose();
+
+  lookups ??= createLookups();
+  const { color, alpha } = lookups[halfFloat ? 'half' : 'byte'];
+  const image = new ImageData(width, height);
+  const rowLength = width * 4;
+  // WebGL rows start at the bottom, alpha stays linear
+  for (let y = 0; y < height; y++) {
+    const from = (height - 1 - y) * rowLength;
+    const to = y * rowLength;
+    for (let i = 0; i < rowLength; i += 4) {
+      image.data[to + i] = color[pixels[from + i]];
+      image.data[to + i + 1] = color[pixels[from + i + 1]];
+      image.data[to + i + 2] = color[pixels[from + i + 2]];
+      const a = alpha[pixels[from + i + 3]];
+      image.data[to + i + 3] = a;
+      // antialiased edges over the transparent background are premultiplied
+      if (a > 0 && a < 255) {
+        for (let c = 0; c < 3; c++) image.data[to + i + c] = Math.min(255, Math.round((image.data[to + i + c] * 255) / a));
+      }
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+  return canvas;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // give the download time to start before the url is released
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadCanvas(canvas: HTMLCanvasElement, filename: string) {
+  canvas.toBlob(blob => {
+    if (blob) downloadBlob(blob, filename);
+  }, 'image/png');
+}
+
+/**
+ * Record what is drawn on a canvas as WebM.
+ * @param fps frames per second of the captured stream
+ */
+export function createRecorder(canvas: HTMLCanvasElement, fps = 30) {
+  let recorder: MediaRecorder | undefined;
+  let stream: MediaStream | undefined;
+  let chunks: Blob[] = [];
+
+  return {
+    get recording() {
+      return recorder?.state === 'recording';
+    },
+
+    start() {
+      const mimeType = VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      if (!mimeType) throw new Error('This browser cannot record WebM video');
+      chunks = [];
+      stream = canvas.captureStream(fps);
+      recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+      recorder.addEventListener('dataavailable', event => {
+        if (event.data.size) chunks.push(event.data);
+      });
+      recorder.start();
+    },
+
+    // resolves with the video once the recorder has flushed its last data
+    stop(): Promise<Blob> {
+      return new Promise((resolve, reject) => {
+        if (!recorder || recorder.state === 'inactive') {
+          reject(new Error('Not recording'));
+          return;
+        }
+        const { mimeType } = recorder;
+        recorder.addEventListener('stop', () => {
+          stream?.getTracks().forEach(track => track.stop());
+          resolve(new Blob(chunks, { type: mimeType }));
+        }, { once: true });
+        recorder.stop();
+      });
+    }
+  };
+}
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// binary glTF 2.0 (.glb) of a scene graph
+export async function exportGLTF(object: THREE.Object3D): Promise<Blob> {
+  const result = await new GLTFExporter().parseAsync(object, { binary: true });
+  return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+}
+
+/**
+ * Wavefront OBJ of the meshes below `object`, one object per mesh. Vertex colors
+ * follow the positions as sRGB, an extension Blender and MeshLab read.
+ * OBJExporter only writes vertex colors of points, hence the own writer.
+ */
+export function exportOBJ(object: THREE.Object3D): Blob {
+  const lines: string[] = [];
+  const vertex = new THREE.Vector3(), normal = new THREE.Vector3(), color = new THREE.Color();
+  const normalMatrix = new THREE.Matrix3();
+  let offset = 1;   // OBJ indices start at 1 and run across objects
+  object.updateMatrixWorld(true);
+  object.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const geometry = child.geometry as THREE.BufferGeometry;
+    const positions = geometry.getAttribute('position');
+    const normals = geometry.getAttribute('normal');
+    const colors = geometry.getAttribute('color');
+    normalMatrix.getNormalMatrix(child.matrixWorld);
+    lines.push(`o ${child.name || 'mesh'}`);
+    for (let i = 0; i < positions.count; i++) {
+      vertex.fromBufferAttribute(positions, i).applyMatrix4(child.matrixWorld);
+      let line = `v ${round(vertex.x)} ${round(vertex.y)} ${round(vertex.z)}`;
+      if (colors) {
+        color.fromBufferAttribute(colors, i).convertLinearToSRGB();
+        line += ` ${round(color.r)} ${round(color.g)} ${round(color.b)}`;
+      }
+      lines.push(line);
+    }
+    for (let i = 0; i < normals.count; i++) {
+      normal.fromBufferAttribute(normals, i).applyMatrix3(normalMatrix).normalize();
+      lines.push(`vn ${round(normal.x)} ${round(normal.y)} ${round(normal.z)}`);
+    }
+    // geometries are not indexed, every three vertices form a face
+    for (let i = 0; i < positions.count; i += 3) {
+      const [a, b, c] = [offset + i, offset + i + 1, offset + i + 2];
+      lines.push(`f ${a}//${a} ${b}//${b} ${c}//${c}`);
+    }
+    offset += positions.count;
+  });
+  return new Blob([lines.join('\n') + '\n'], { type: 'model/obj' });
+}
+
+/**
+ * The triangulation of each country as a GeoJSON feature, one counterclockwise
+ * polygon per triangle. Triangles crossing the antimeridian keep their shape,
+ * their western corners are moved past 180°.
+ */
+export function exportTriangles(countries: CountryData[]): Blob {
+  const features = countries.map(country => ({
+    type: 'Feature',
+    properties: { iso: country.iso, name: country.name },
+    geometry: {
+      type: 'MultiPolygon',
+      coordinates: country.triangles.flatMap((triangles, index) => triangles.map(triangle => {
+        const corners = triangle.map(i => [round(country.points[index][i].lon), round(country.points[index][i].lat)]);
+        const lons = corners.map(([lon]) => lon);
+        if (Math.max(...lons) - Math.min(...lons) > 180) {
+          for (const corner of corners) if (corner[0] < 0) corner[0] += 360;
+        }
+        const [a, b, c] = corners;
+        if ((b[0] - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (b[1] - a[1]) < 0) corners.reverse();
+        return [[...corners, corners[0]]];
+      }))
+    }
+  }));
+  return new Blob([JSON.stringify({ type: 'FeatureCollection', features })], { type: 'application/geo+json' });
+}
@@ -0,0 +1,104 @@
+// this module flies the camera around the globe to look at a given point, or
+// pans it across the flat map. It is stepped from the animate() loop so it
+// stays in sync with rendering
+
+import * as THREE from 'three';
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+interface Flight {
+  start: number;
+  duration: number;
+  fromDirection: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  fromDistance: number;
+  toDistance: number;
+  fromTarget: THREE.Vector3;
+}
+
+interface Pan {
+  start: number;
+  duration: number;
+  fromTarget: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  offset: THREE.Vector3;    // camera position relative to the target
+}
+
+const easeInOut = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+export function createCameraFlight(camera: THREE.PerspectiveCamera, controls: OrbitControls) {
+  let flight: Flight | undefined;
+  let pan: Pan | undefined;
+
+  // any user interaction takes over from a running flight
+  controls.addEventListener('start', () => {
+    flight = undefined;
+    pan = undefined;
+  });
+
+  return {
+    /**
+     * Rotate the camera around the globe center until it looks at `point`.
+     * @param point point on or near the globe surface
+     * @param distance camera distance from the globe center, defaults to the current one
+     * @param duration flight duration in milliseconds
+     */
+    flyTo(point: THREE.Vector3, distance?: number, duration = 1200) {
+      pan = undefined;
+      const fromDirection = camera.position.clone().sub(controls.target).normalize();
+      const toDirection = point.clone().normalize();
+      flight = {
+        start: performance.now(),
+        duration,
+        fromDirection,
+        rotation: new THREE.Quaternion().setFromUnitVectors(fromDirection, toDirection),
+        fromDistance: camera.position.distanceTo(controls.target),
+        toDistance: distance ?? camera.position.length(),
+        fromTarget: controls.target.clone()
+      };
+    },
+
+    /**
+     * Move the camera parallel to the flat map until it is centered on `point`.
+     * @param duration duration in milliseconds
+     */
+    panTo(point: THREE.Vector3, duration = 800) {
+      flight = undefined;
+      pan = {
+        start: performance.now(),
+        duration,
+        fromTarget: controls.target.clone(),
+        toTarget: new THREE.Vector3(point.x, point.y, 0),
+        offset: camera.position.clone().sub(controls.target)
+      };
+    },
+
+    // leave the camera where it is, e.g. before placing it directly
+    stop() {
+      flight = undefined;
+      pan = undefined;
+    },
+
+    update(time: number) {
+      if (pan) {
+        const t = Math.min(1, (time - pan.start) / pan.duration);
+        controls.target.lerpVectors(pan.fromTarget, pan.toTarget, easeInOut(t));
+        camera.position.copy(controls.target).add(pan.offset);
+        if (t === 1) pan = undefined;
+        return;
+      }
+      if (!flight) return;
+      const t = Math.min(1, (time - flight.start) / flight.duration);
+      const k = easeInOut(t);
+      const rotation = new THREE.Quaternion().slerp(flight.rotation, k);
+      const distance = THREE.MathUtils.lerp(flight.fromDistance, flight.toDistance, k);
+      controls.target.copy(flight.fromTarget).multiplyScalar(1 - k);
+      camera.position.copy(flight.fromDirection).applyQuaternion(rotation).multiplyScalar(distance).add(controls.target);
+      camera.lookAt(controls.target);
+      if (t === 1) flight = undefined;
+    },
+
+    get flying() {
+      return !!flight || !!pan;
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV } from './csv';
+import { formatIndicatorData } from './helper';
+import wdi from '../public/API_SP.POP.TOTL_DS2_en_csv_v2_34.csv?raw';
+
+describe('formatIndicatorData', () => {
+  const data = formatIndicatorData(parseCSV(wdi));
+
+  it('reads the metadata rows', () => {
+    expect(data.title).toBe('Data Source World Development Indicators');
+    expect(data.lastUpdated).toBe('Last Updated Date 2025-12-19');
+    expect(data.name).toBe('Population, total');
+    expect(data.code).toBe('SP.POP.TOTL');
+  });
+
+  it('keys countries by ISO3 code and keeps names with commas', () => {
+    expect(data.names.KOR).toBe('Korea, Rep.');
+    expect(data.names.EGY).toBe('Egypt, Arab Rep.');
+    expect(data.countries.KOR['1960'].value).toBe(25012374);
+    expect(data.countries.EGY['1960'].value).toBe(26896479);
+  });
+
+  it('reads every year column and no trailing empty column', () => {
+    const years = Object.keys(data.countries.KOR);
+    expect(years[0]).toBe('1960');
+    expect(years[years.length - 1]).toBe('2024');
+    expect(years).toHaveLength(2024 - 1960 + 1);
+  });
+
+  it('reads empty cells as missing data', () => {
+    const values = Object.values(data.countries).flatMap(years => Object.values(years));
+    expect(values.some(({ value }) => isNaN(value))).toBe(true);
+    expect(values.every(({ color }) => color === '')).toBe(true);
+  });
+
+  it('finds the other columns by header name, not position', () => {
+    const rows = [
+      ['Data Source', 'WDI'],
+      [''],
+      ['Last Updated Date', '2025-01-01'],
+      ['Country Name', 'Indicator Code', '2000', 'Country Code', 'Indicator Name'],
+      ['Korea, Rep.', 'X.Y', '12', 'KOR', 'Some indicator']
+    ];
+    const swapped = formatIndicatorData(rows);
+    expect(swapped.code).toBe('X.Y');
+    expect(swapped.name).toBe('Some indicator');
+    expect(swapped.names.KOR).toBe('Korea, Rep.');
+    expect(swapped.countries.KOR['2000'].value).toBe(12);
+  });
+});
@@ -1,8 +1,25 @@
-import type { Vec3 } from "./types";
+import type { IndicatorDataset, IndicatorValue, Vec3 } from "./types";
 import * as THREE from 'three';
+import { createCSVParser } from './csv';
+
+// small deterministic PRNG (mulberry32), used where meshes must be reproducible
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
-export function randomColor(): string {
-  return '#' + Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0');
+export function hashString(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
 }
 
 export function latLonToSphere(lat: number, lon: number): Vec3 {
@@ -15,190 +32,93 @@ export function latLonToSphere(lat: number, lon: number): Vec3 {
   };
 }
 
-function cleanCell(cell: string) {
-  return cell
-    .replace(/^"+|"+$/g, '')   // remove outer quotes
-    .replace(/\\"/g, '"');     // unescape quotes
-}
-
 export async function loadCSV(url: string) {
   const res = await fetch(url);
-  const text = await res.text();
-
-  const rows = text
-    .split('\n')
-    .map(r => r.split(',').map(cleanCell));
+  if (!res.ok) throw new Error(`${url} responded with ${res.status}`);
+
+  const rows: string[][] = [];
+  const parser = createCSVParser(row => rows.push(row));
+  if (res.body) {
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      parser.push(chunk.value);
+    }
+  } else {
+    parser.push(await res.text());
+  }
+  parser.end();
 
   return rows;
 }
 
-function parsePopulationToNumber(population: string) {
-  return Number(population);
+// empty cells are missing data, not zero
+function parseValueToNumber(value: string) {
+  return value.trim() === '' ? NaN : Number(value);
 }
 
-export const POPULATION_CATEGORY = [
-  {
-    min: 0,
-    max: 500_000,
-    color: '#f9e5e5'
-  },
-  {
-    min: 500_000,
-    max: 1_000_000,
-    color: '#f4cccc'
-  },
-  {
-    min: 1_000_000,
-    max: 5_000_000,
-    color: '#efb2b2'
-  },
-  {
-    min: 5_000_000,
-    max: 10_000_000,
-    color: '#ea9999'
-  },
-  {
-    min: 10_000_000,
-    max: 50_000_000,
-    color: '#e57f7f'
-  },
-  {
-    min: 50_000_000,
-    max: 100_000_000,
-    color: '#e06666'
-  },
-  {
-    min: 100_000_000,
-    max: 200_000_000,
-    color: '#db4c4c'
-  },
-  {
-    min: 200_000_000,
-    max: 500_000_000,
-    color: '#d63232'
-  },
-  {
-    min: 500_000_000,
-    max: 100_000_000_000,
-    color: '#cc0000'
-  },
-];
-
-
-const EXCLUDED_DATAPOINTS = [
-  'World',
-  'Sub-Saharan Africa (excluding high income)',
-  'Post-demographic dividend',
-  'Not classified',
-  'Upper middle income',
-  'Sub-Saharan Africa',
-  'Latin America & Caribbean (excluding high income)',
-  'Sub-Saharan Africa (IDA & IBRD countries)',
-  'IDA total',
-  'South Asia (IDA & IBRD)',
-  'Lower middle income',
-  'Central Europe and the Baltics',
-  'Africa Western and Central',
-  'IDA only',
-  'Fragile and conflict affected situations',
-  'IDA blend',
-  'Low & middle income',
-  'IDA & IBRD total',
-  'Low income',
-  'Late-demographic dividend',
-  'Latin America & the Caribbean (IDA & IBRD countries)',
-  'Europe & Central Asia (IDA & IBRD countries)',
-  'East Asia & Pacific (IDA & IBRD countries)',
-  'IBRD only',
-  'Least developed countries: UN classification',
-  'Pre-demographic dividend',
-  'Middle income',
-  'European Union',
-  'East Asia & Pacific (excluding high income)',
-  'Early-demographic dividend',
-  'East Asia & Pacific',
-  'Europe & Central Asia',
-  'Euro area',
-  'High income',
-  'Heavily indebted poor countries (HIPC)',
-  'Latin America & Caribbean',
-  'Middle East',
-  'OECD members',
-  'South Asia',
-  'Small states',
-  'North America',
-  'Africa Eastern and Southern',
-  'Europe & Central Asia (excluding high income)'
-];
-
-const CORRECTED_NAMES: Record<string, string> = {
-  'United States': 'United States of America',
-  'Russian Federation': 'Russia',
-  'Central African Republic': 'Central African Rep.',
-  "Cote d'Ivoire": "Côte d'Ivoire",
-  'Syrian Arab Republic': 'Syria',
-  'Turkiye': 'Turkey',
-  'Kyrgyz Republic': 'Kyrgyzstan',
-  'Viet Nam': 'Vietnam',
-  'Lao PDR': 'Laos',
-  'Dominican Republic': 'Dominican Rep.',
-  'Slovak Republic': 'Slovakia',
-  'Bosnia and Herzegovina': 'Bosnia and Herz.',
-  'Solomon Islands': 'Solomon Is.'
-};
-
-export function heatMapColor(
-  population: number,
-): string {
-  const category = POPULATION_CATEGORY.find(cat => (cat.min < population) && (cat.max > population))
-  return category?.color || '#ffffff';
+/**
+ * Value and choropleth color at a fractional year, interpolated between
+ * the surrounding years. Falls back to the nearest year when one side has no data.
+ * @param years yearly data of one country
+ * @param position year, e.g. 1990.25
+ */
+export function valueAt(
+  years: Record<string, IndicatorValue> | undefined,
+  position: number
+): IndicatorValue | undefined {
+  if (!years) return undefined;
+  const from = years[String(Math.floor(position))];
+  const to = years[String(Math.ceil(position))];
+  const t = position - Math.floor(position);
+  if (!from || !to || t === 0 || isNaN(from.value) || isNaN(to.value)) {
+    return (t < 0.5 ? from ?? to : to ?? from);
+  }
+  const color = new THREE.Color(from.color).lerp(new THREE.Color(to.color), t);
+  return {
+    value: from.value + (to.value - from.value) * t,
+    color: '#' + color.getHexString()
+  };
 }
 
-export function formatPopulationData(rows: string[][]) {
+// WDI exports start with a few metadata rows, then a header row naming the columns
+const WDI_COLUMNS = ['Country Name', 'Country Code', 'Indicator Name', 'Indicator Code'];
+
+// colors are left empty, they depend on the classification chosen in the UI
+export function formatIndicatorData(rows: string[][]): IndicatorDataset {
   const title = `${rows[0][0]} ${rows[0][1]}`;
   const lastUpdated = `${rows[2][0]} ${rows[2][1]}`;
-  const data: { title: string, lastUpdated: string, countries: Record<string, Record<string, { population: number, color: string }>> } = {
+  const data: IndicatorDataset = {
     title,
     lastUpdated,
+    name: '',
+    code: '',
+    names: {},
     countries: {}
   };
-  // create country object using the csv data
-  for (let i = 0; i < rows.length; i++) {
-    if (i < 5) continue;
-    let countryName = rows[i][0];
-    if (EXCLUDED_DATAPOINTS.includes(countryName)) continue;
-    // rename label from populationJSON to match GeoJSON label
-    if (countryName in CORRECTED_NAMES) {
-      countryName = CORRECTED_NAMES[countryName];
-    }
 
-    if (countryName === 'Korea') {
-      if (rows[i][2] === 'PRK') {
-        countryName = 'North Korea';
-      } else {
-        countryName = 'South Korea';
-      }
-    }
-
-    const countryData: Record<string, { population: number, color: string }> = {};
-    for (let j = 0; j < rows[4].length; j++) {
-      if (j > 3) {
-        // polulation data
-        const population = parsePopulationToNumber(rows[i][j + 1]);
-        const year = rows[4][j];
-        if (!year.trim()) continue;
-        countryData[year] = { population, color: '' };
-      }
-    }
-    data.countries[countryName] = countryData;
-  }
-
-  for (const key in data.countries) {
-    for (const year in data.countries[key]) {
-      const color = heatMapColor((data.countries[key][year] as { population: number, color: string }).population);
-      (data.countries[key][year] as { population: number, color: string }).color = color;
+  const headerIndex = rows.findIndex(row => row[0] === WDI_COLUMNS[0]);
+  if (headerIndex === -1) throw new Error('No WDI header row found');
+  const header = rows[headerIndex];
+  const [nameColumn, isoColumn, indicatorNameColumn, indicatorCodeColumn] = WDI_COLUMNS.map(column => header.indexOf(column));
+  const yearColumns = header
+    .map((cell, j) => ({ year: cell.trim(), j }))
+    .filter(({ year }) => /^\d{4}$/.test(year));
+
+  // create country object using the csv data, keyed by ISO3 code
+  for (const row of rows.slice(headerIndex + 1)) {
+    if (row.length < header.length) continue; // blank line
+
+    data.name ||= row[indicatorNameColumn];
+    data.code ||= row[indicatorCodeColumn];
+
+    const iso = row[isoColumn];
+    data.names[iso] = row[nameColumn];
+    const countryData: Record<string, IndicatorValue> = {};
+    for (const { year, j } of yearColumns) {
+      countryData[year] = { value: parseValueToNumber(row[j]), color: '' };
     }
+    data.countries[iso] = countryData;
   }
 
   return data;
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+// this module finds the World Bank WDI exports (API_*.csv) dropped into public/
+// and loads each of them as an indicator dataset
+
+import { formatIndicatorData, loadCSV } from './helper';
+import type { CountryData, IndicatorDataset } from './types';
+
+export const DEFAULT_INDICATOR = 'SP.POP.TOTL';
+
+// only the file names are needed, the files are fetched from the public root at runtime
+export const INDICATOR_FILES = Object.keys(
+  import.meta.glob('/public/API_*.csv', { query: '?url', import: 'default' })
+).map(path => path.slice('/public/'.length));
+
+export async function loadIndicators(): Promise<IndicatorDataset[]> {
+  const datasets = await Promise.all(INDICATOR_FILES.map(async file => {
+    try {
+      return formatIndicatorData(await loadCSV(file));
+    } catch (error) {
+      console.warn(`Indicator file ${file} could not be loaded`, error);
+      return undefined;
+    }
+  }));
+  return datasets.filter((dataset): dataset is IndicatorDataset => !!dataset?.code);
+}
+
+const largeNumber = new Intl.NumberFormat('en', { maximumFractionDigits: 0 });
+const smallNumber = new Intl.NumberFormat('en', { maximumFractionDigits: 2 });
+const compact = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+const precise = new Intl.NumberFormat('en', { maximumSignificantDigits: 2 });
+
+function withUnit(text: string, value: number, dataset: IndicatorDataset) {
+  const sign = dataset.signed && value > 0 ? '+' : '';
+  return `${sign}${text}${dataset.unit ?? ''}`;
+}
+
+// full value for labels and the info panel
+export function formatIndicatorValue(value: number, dataset: IndicatorDataset) {
+  if (isNaN(value)) return 'No Data';
+  return withUnit((Math.abs(value) >= 1000 ? largeNumber : smallNumber).format(value), value, dataset);
+}
+
+// short value for legend class bounds
+export function formatIndicatorLegendValue(value: number, dataset: IndicatorDataset) {
+  return withUnit((Math.abs(value) >= 1 ? compact : precise).format(value), value, dataset);
+}
+
+export interface JoinReport {
+  indicator: string;
+  unmatchedFeatures: { name: string, iso: string, reason: string }[];
+  unmatchedRows: { name: string, iso: string }[];
+}
+
+/**
+ * Lists the GeoJSON features that show "No Data" for a year and the data rows
+ * that have no feature. Unmatched rows are mostly WDI aggregates (World, regions, income groups).
+ */
+export function joinReport(countries: CountryData[], dataset: IndicatorDataset, year: string): JoinReport {
+  const unmatchedFeatures: JoinReport['unmatchedFeatures'] = [];
+  for (const { name, iso } of countries) {
+    const years = dataset.countries[iso];
+    if (!iso) unmatchedFeatures.push({ name, iso, reason: 'feature has no ISO code' });
+    else if (!years) unmatchedFeatures.push({ name, iso, reason: 'no data row with this code' });
+    else if (isNaN(years[year]?.value ?? NaN)) unmatchedFeatures.push({ name, iso, reason: `no value for ${year}` });
+  }
+
+  const isos = new Set(countries.map(country => country.iso));
+  const unmatchedRows = Object.keys(dataset.countries)
+    .filter(iso => !isos.has(iso))
+    .map(iso => ({ name: dataset.names[iso], iso }));
+
+  return { indicator: dataset.code, unmatchedFeatures, unmatchedRows };
+}
+
+export function logJoinReport(report: JoinReport) {
+  console.groupCollapsed(
+    `${report.indicator}: ${report.unmatchedFeatures.length} countries without data, ` +
+    `${report.unmatchedRows.length} data rows without a country`
+  );
+  console.table(report.unmatchedFeatures);
+  console.table(report.unmatchedRows);
+  console.groupEnd();
+}
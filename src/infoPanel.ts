@@ -0,0 +1,76 @@
+// this module shows the details of the selected country
+
+export interface CountryInfo {
+  name: string;
+  iso: string;
+  year: string;
+  value: string;
+  rank?: { position: number, total: number };
+  hidden: boolean;   // the country is not drawn on the globe
+}
+
+/**
+ * @param onToggleHidden called by the button that hides the country or shows it again
+ */
+export function createInfoPanel(onClose: () => void, onToggleHidden: () => void) {
+  const panel = document.createElement('div');
+  Object.assign(panel.style, {
+    position: 'fixed',
+    top: '30px',
+    right: '30px',
+    width: '220px',
+    padding: '12px',
+    borderRadius: '5px',
+    fontFamily: 'Arial',
+    fontSize: '12px',
+    background: 'rgba(0,0,0,0.75)',
+    color: '#fff',
+    zIndex: '10',
+    display: 'none'
+  });
+
+  const close = document.createElement('span');
+  close.textContent = '×';
+  Object.assign(close.style, {
+    position: 'absolute',
+    top: '6px',
+    right: '10px',
+    fontSize: '16px',
+    cursor: 'pointer'
+  });
+  close.addEventListener('click', onClose);
+
+  const title = document.createElement('p');
+  Object.assign(title.style, { fontSize: '18px', margin: '0 16px 4px 0' });
+
+  const iso = document.createElement('p');
+  Object.assign(iso.style, { margin: '0 0 10px', opacity: '0.7' });
+
+  const value = document.createElement('p');
+  Object.assign(value.style, { margin: '0', fontWeight: 'bold', fontSize: '14px' });
+
+  const rank = document.createElement('p');
+  Object.assign(rank.style, { margin: '4px 0 0', opacity: '0.7' });
+
+  const toggle = document.createElement('button');
+  Object.assign(toggle.style, { marginTop: '10px', cursor: 'pointer' });
+  toggle.addEventListener('click', onToggleHidden);
+
+  panel.append(close, title, iso, value, rank, toggle);
+  document.body.appendChild(panel);
+
+  return {
+    show(info: CountryInfo) {
+      title.textContent = info.name;
+      iso.textContent = info.iso ? `ISO ${info.iso}` : 'No ISO code';
+      value.textContent = `${info.year}: ${info.value}`;
+      rank.textContent = info.rank ? `Rank ${info.rank.position} of ${info.rank.total}` : 'Not ranked';
+      toggle.textContent = info.hidden ? 'Show country' : 'Hide country';
+      panel.style.display = 'block';
+    },
+
+    hide() {
+      panel.style.display = 'none';
+    }
+  };
+}
@@ -0,0 +1,146 @@
+// this module decides which country labels are shown: labels are anchored at the
+// pole of inaccessibility of the largest polygon, small countries only appear when
+// zoomed in, and labels that overlap a more important one are hidden
+
+import * as THREE from 'three';
+import type { CSS2DObject } from 'three/examples/jsm/renderers/CSS2DRenderer.js';
+import { largestPolygon } from './countries';
+import { latLonToSphere } from './helper';
+import { poleOfInaccessibility } from './polylabel';
+import type { CountryData } from './types';
+
+export type LabelPriority = 'area' | 'value';
+
+export const LABEL_PRIORITIES: { value: LabelPriority, label: string }[] = [
+  { value: 'area', label: 'Largest area first' },
+  { value: 'value', label: 'Highest value first' }
+];
+
+// countries smaller than this (km²) are unlabeled when fully zoomed out,
+// the limit shrinks quadratically while zooming in
+const MAX_HIDDEN_AREA = 500_000;
+
+// labels facing away more than this from the camera are behind the horizon
+const HORIZON_DOT = 0.2;
+
+// free space kept around every label, in pixels
+const LABEL_MARGIN = 2;
+
+const FONT_SIZE = 8;
+const FONT = `${FONT_SIZE}px Arial`;
+const LINE_HEIGHT = 12;
+
+export interface LabelCandidate {
+  label: CSS2DObject;
+  area: number;        // km²
+  value: number;       // value of the active indicator, NaN when missing
+  pinned: boolean;     // selected countries are always labeled
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+// size of a label with the given text lines, without touching the DOM layout
+export function measureLabel(lines: string[]): { width: number, height: number } {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (measureContext) measureContext.font = FONT;
+  const width = Math.max(...lines.map(line => measureContext?.measureText(line).width ?? line.length * 5));
+  return { width, height: lines.length * LINE_HEIGHT };
+}
+
+// point on the globe where the label of a country is anchored
+export function countryLabelAnchor(country: CountryData): THREE.Vector3 {
+  const polygon = country.polygons[largestPolygon(country)];
+  const { lat, lon } = poleOfInaccessibility(polygon);
+  const { x, y, z } = latLonToSphere(lat, lon);
+  return new THREE.Vector3(x, y, z);
+}
+
+/**
+ * Show or hide every label for the current view, called every frame.
+ * @param zoom 0 when fully zoomed in, 1 when fully zoomed out
+ * @param horizon hide labels on the far side of the globe
+ */
+export function layoutLabels(
+  candidates: LabelCandidate[],
+  camera: THREE.Camera,
+  size: { width: number, height: number },
+  { zoom, horizon, priority }: { zoom: number, horizon: boolean, priority: LabelPriority }
+) {
+  const minArea = MAX_HIDDEN_AREA * zoom * zoom;
+  const position = new THREE.Vector3();
+  const toCamera = new THREE.Vector3();
+  const placed: { left: number, right: number, top: number, bottom: number }[] = [];
+
+  const rank = (candidate: LabelCandidate) => {
+    if (priority === 'area') return candidate.area;
+    return isNaN(candidate.value) ? -Infinity : candidate.value;
+  };
+  const ordered = [...candidates].sort((a, b) =>
+    Number(b.pinned) - Number(a.pinned) || rank(b) - rank(a));
+
+  for (const candidate of ordered) {
+    const { label } = candidate;
+    label.visible = false;
+    if (!candidate.pinned && candidate.area < minArea) continue;
+
+    label.getWorldPosition(position);
+    if (horizon) {
+      toCamera.copy(camera.position).normalize();
+      if (position.clone().normalize().dot(toCamera) < HORIZON_DOT) continue;
+    }
+
+    const ndc = position.project(camera);
+    if (ndc.z < -1 || ndc.z > 1 || Math.abs(ndc.x) > 1 || Math.abs(ndc.y) > 1) continue;
+    const x = (ndc.x + 1) / 2 * size.width;
+    const y = (1 - ndc.y) / 2 * size.height;
+    const { width, height } = label.userData.size ?? { width: 0, height: 0 };
+    const rect = {
+      left: x - width / 2 - LABEL_MARGIN,
+      right: x + width / 2 + LABEL_MARGIN,
+      top: y - height / 2 - LABEL_MARGIN,
+      bottom: y + height / 2 + LABEL_MARGIN
+    };
+
+    const overlaps = placed.some(other =>
+      rect.left < other.right && rect.right > other.left && rect.top < other.bottom && rect.bottom > other.top);
+    if (overlaps && !candidate.pinned) continue;
+
+    placed.push(rect);
+    label.visible = true;
+  }
+}
+
+/**
+ * Draw the visible labels onto a 2D canvas, for exports: CSS2D labels are
+ * HTML elements and not part of the WebGL canvas.
+ * @param viewport area of the canvas the camera rendered into, in canvas pixels
+ * @param scale canvas pixels per CSS pixel of the labels
+ */
+export function drawLabels(
+  context: CanvasRenderingContext2D,
+  labels: CSS2DObject[],
+  camera: THREE.Camera,
+  viewport: { x: number, y: number, width: number, height: number },
+  scale: number
+) {
+  const position = new THREE.Vector3();
+  context.save();
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  for (const label of labels) {
+    if (!label.visible) continue;
+    const ndc = label.getWorldPosition(position).project(camera);
+    if (ndc.z < -1 || ndc.z > 1) continue;
+    const x = viewport.x + (ndc.x + 1) / 2 * viewport.width;
+    const y = viewport.y + (1 - ndc.y) / 2 * viewport.height;
+
+    // lines are centered on the anchor like the CSS2D element
+    const lines = [...label.element.querySelectorAll('p')];
+    context.fillStyle = label.element.style.color || 'white';
+    lines.forEach((line, i) => {
+      context.font = `${line.style.fontWeight || 'normal'} ${FONT_SIZE * scale}px Arial`;
+      context.fillText(line.textContent ?? '', x, y + (i - (lines.length - 1) / 2) * LINE_HEIGHT * scale);
+    });
+  }
+  context.restore();
+}
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { POPULATION_CATEGORY } from "./helper";
+import type { Classification } from './classification';
 
 export function createControlPanel() {
   const cpanel = document.createElement('div');
@@ -15,8 +15,66 @@ export function createControlPanel() {
   return cpanel;
 }
 
-export function createToggle(cpanel: HTMLDivElement, labelText: string, targetGroup: THREE.Group, defaultValue = true) {
-  targetGroup.visible = defaultValue;
+// centered at the top, the info panel takes the top right corner
+export function createLoadingIndicator() {
+  const container = document.createElement('div');
+  Object.assign(container.style, {
+    position: 'fixed',
+    top: '30px',
+    left: '50%',
+    transform: 'translateX(-50%)',
+    fontFamily: 'Arial',
+    fontSize: '12px',
+    width: '160px',
+    zIndex: '10'
+  });
+
+  const text = document.createElement('span');
+  text.textContent = 'Loading countries…';
+
+  const track = document.createElement('div');
+  Object.assign(track.style, {
+    marginTop: '6px',
+    height: '4px',
+    borderRadius: '999px',
+    background: 'rgba(255,255,255,0.2)'
+  });
+
+  const bar = document.createElement('div');
+  Object.assign(bar.style, {
+    width: '0%',
+    height: '100%',
+    borderRadius: '999px',
+    background: '#000',
+    transition: 'width 0.15s ease'
+  });
+
+  track.appendChild(bar);
+  container.append(text, track);
+  document.body.appendChild(container);
+
+  return {
+    update(done: number, total: number) {
+      text.textContent = `Loading countries ${done} / ${total}`;
+      bar.style.width = `${(done / Math.max(total, 1)) * 100}%`;
+    },
+    remove() {
+      container.remove();
+    }
+  };
+}
+
+// the target is a group to show and hide, or a callback for the checked state
+export function createToggle(
+  cpanel: HTMLDivElement,
+  labelText: string,
+  target: THREE.Group | ((checked: boolean) => void),
+  defaultValue = true
+) {
+  const apply = (checked: boolean) => {
+    if (typeof target === 'function') target(checked); else target.visible = checked;
+  };
+  apply(defaultValue);
 
   const label = document.createElement('label');
   Object.assign(label.style, {
@@ -43,7 +101,7 @@ export function createToggle(cpanel: HTMLDivElement, labelText: string, targetGr
   });
 
   checkbox.addEventListener('change', () => {
-    targetGroup.visible = checkbox.checked;
+    apply(checkbox.checked);
     updateCheckboxStyle();
   });
 
@@ -67,6 +125,19 @@ export function createToggle(cpanel: HTMLDivElement, labelText: string, targetGr
 
   label.append(checkbox, text);
   cpanel.appendChild(label);
+
+  return {
+    get checked() {
+      return checkbox.checked;
+    },
+
+    setChecked(checked: boolean) {
+      if (checkbox.checked === checked) return;
+      checkbox.checked = checked;
+      apply(checked);
+      updateCheckboxStyle();
+    }
+  };
 }
 
 
@@ -184,7 +255,7 @@ export function createRangeSlider({
     transition: 'opacity 0.15s ease'
   });
 
-  function update() {
+  function update(notify = true) {
     const minVal = Number(slider.min);
     const maxVal = Number(slider.max);
     const val = Number(slider.value);
@@ -196,10 +267,10 @@ export function createRangeSlider({
 
     slider.style.setProperty('--fill', `${percent * 100}%`);
 
-    onChange?.(val);
+    if (notify) onChange?.(val);
   }
 
-  slider.addEventListener('input', update);
+  slider.addEventListener('input', () => update());
 
   // init
   update();
@@ -208,25 +279,158 @@ export function createRangeSlider({
   cpanel.appendChild(wrapper);
 
   injectSliderStyles();
+
+  return {
+    // notify = false moves the slider without calling onChange
+    setValue(value: number, notify = true) {
+      slider.value = String(value);
+      update(notify);
+    }
+  };
 }
 
 
-export function formatLegendPopulation(population: number) {
-  const remainder = population / 1000;
-  if (remainder < 1) {
-    return `${remainder*1000}`;
-  } 
-  else if (remainder < 1000) {
-    return `${remainder} K`;
-  } else if (remainder > 999 && remainder < 1000_000) {
-    return `${remainder / 1000} M`;
-  } else {
-    return `${remainder / 1000_000} B`
+export function createSelect({
+  cpanel,
+  label,
+  options,
+  value,
+  onChange
+}: {
+  cpanel: HTMLDivElement;
+  label: string;
+  options: { value: string, label: string }[];
+  value?: string;
+  onChange?: (value: string) => void;
+}) {
+  const wrapper = document.createElement('label');
+  Object.assign(wrapper.style, {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    marginTop: '8px'
+  });
+
+  const text = document.createElement('span');
+  text.textContent = label;
+
+  const select = document.createElement('select');
+  select.style.maxWidth = '220px';
+  function setOptions(options: { value: string, label: string }[], value?: string) {
+    select.replaceChildren();
+    for (const option of options) {
+      const element = document.createElement('option');
+      element.value = option.value;
+      element.textContent = option.label;
+      element.selected = option.value === value;
+      select.appendChild(element);
+    }
   }
+  setOptions(options, value);
+  select.addEventListener('change', () => onChange?.(select.value));
+
+  wrapper.append(text, select);
+  cpanel.appendChild(wrapper);
+
+  return {
+    // moves the selection without calling onChange
+    setValue(value: string) {
+      select.value = value;
+    },
+
+    setOptions(options: { value: string, label: string }[]) {
+      setOptions(options, select.value);
+    }
+  };
 }
 
 
-export function createPopulationLegend() {
+export function createButton(cpanel: HTMLDivElement, labelText: string, onClick: () => void) {
+  const button = document.createElement('button');
+  button.textContent = labelText;
+  Object.assign(button.style, {
+    marginTop: '8px',
+    marginRight: '8px',
+    cursor: 'pointer'
+  });
+  button.addEventListener('click', onClick);
+  cpanel.appendChild(button);
+
+  return {
+    setLabel(text: string) {
+      button.textContent = text;
+    }
+  };
+}
+
+export function createPlaybackControls({
+  cpanel,
+  speeds = [0.5, 1, 2, 5],
+  speed = 2,
+  onToggle,
+  onSpeedChange
+}: {
+  cpanel: HTMLDivElement;
+  speeds?: number[];
+  speed?: number;
+  onToggle?: () => void;
+  onSpeedChange?: (speed: number) => void;
+}) {
+  const wrapper = document.createElement('div');
+  Object.assign(wrapper.style, {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    marginTop: '4px'
+  });
+
+  const button = document.createElement('span');
+  Object.assign(button.style, {
+    width: '22px',
+    height: '22px',
+    borderRadius: '50%',
+    background: '#000',
+    color: '#fff',
+    display: 'grid',
+    placeContent: 'center',
+    cursor: 'pointer',
+    userSelect: 'none',
+    fontSize: '10px'
+  });
+  button.addEventListener('click', () => onToggle?.());
+
+  const select = document.createElement('select');
+  for (const value of speeds) {
+    const option = document.createElement('option');
+    option.value = String(value);
+    option.textContent = `${value} yr/s`;
+    option.selected = value === speed;
+    select.appendChild(option);
+  }
+  select.addEventListener('change', () => onSpeedChange?.(Number(select.value)));
+
+  wrapper.append(button, select);
+  cpanel.appendChild(wrapper);
+
+  function setPlaying(playing: boolean) {
+    button.textContent = playing ? '❚❚' : '▶';
+    button.title = playing ? 'Pause' : 'Play';
+  }
+  setPlaying(false);
+
+  return { setPlaying };
+}
+
+
+const compact = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+
+export function formatLegendValue(value: number) {
+  return compact.format(value);
+}
+
+
+// the right side holds the legend of the second viewport when comparing
+export function createLegend(side: 'left' | 'right' = 'left') {
 
   const mainContainer = document.createElement('div');
 
@@ -235,7 +439,7 @@ export function createPopulationLegend() {
   Object.assign(mainContainer.style, {
     position: 'fixed',
     bottom: '30px',
-    left: '30px',
+    [side]: '30px',
 
     maxWidth: '300px',
     fontSize: '12px'
@@ -251,39 +455,110 @@ export function createPopulationLegend() {
 
   const legendTitle = document.createElement('p');
   legendTitle.style.fontSize = '20px';
-  legendTitle.textContent = 'Population';
-
-  mainContainer.appendChild(legendTitle);
-
-  POPULATION_CATEGORY.forEach(category => {
-    const categoryContainer = document.createElement('div');
-
-    Object.assign(categoryContainer.style, {
-      display: 'flex',
-      alignItems: 'center',
-      gap: '6px',
-      width: 'auto',            // ← full width row
-      flexBasis: '30%'
-    });
-
-    const categoryColor = document.createElement('span');
-    Object.assign(categoryColor.style, {
-      backgroundColor: category.color,
-      width: '10px',
-      height: '10px',
-      display: 'inline-block',
-      flexShrink: '0'
-    });
-
-    const categoryLabel = document.createElement('span');
-    categoryLabel.textContent =
-      `${formatLegendPopulation(category.min)} - ${formatLegendPopulation(category.max)}`;
-
-    categoryContainer.append(categoryColor, categoryLabel);
-    legendContainer.appendChild(categoryContainer);
-  });
 
-  mainContainer.appendChild(legendContainer);
+  const legendNote = document.createElement('p');
+
+  mainContainer.append(legendTitle, legendNote, legendContainer);
 
   document.body.appendChild(mainContainer);
-}
\ No newline at end of file
+
+  return {
+    setVisible(visible: boolean) {
+      mainContainer.style.display = visible ? 'block' : 'none';
+    },
+
+    update(
+      title: string,
+      { scheme, categories }: Classification,
+      note = '',
+      format: (value: number) => string = formatLegendValue
+    ) {
+      legendTitle.textContent = title;
+      legendNote.textContent = note;
+      legendNote.style.display = note ? 'block' : 'none';
+      legendContainer.replaceChildren();
+      if (!categories.length) return;
+
+      // continuous scales show one gradient from the lowest to the highest value
+      if (scheme === 'continuous') {
+        const gradient = document.createElement('div');
+        Object.assign(gradient.style, {
+          width: '100%',
+          height: '10px',
+          background: `linear-gradient(to right, ${categories.map(category => category.color).join(', ')})`
+        });
+
+        const min = document.createElement('span');
+        min.textContent = format(categories[0].min);
+        const max = document.createElement('span');
+        max.textContent = format(categories[categories.length - 1].max);
+        const range = document.createElement('div');
+        Object.assign(range.style, { display: 'flex', justifyContent: 'space-between', width: '100%' });
+        range.append(min, max);
+
+        legendContainer.append(gradient, range);
+        return;
+      }
+
+      categories.forEach(category => {
+        const categoryContainer = document.createElement('div');
+
+        Object.assign(categoryContainer.style, {
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          width: 'auto',            // ← full width row
+          flexBasis: '30%'
+        });
+
+        const categoryColor = document.createElement('span');
+        Object.assign(categoryColor.style, {
+          backgroundColor: category.color,
+          width: '10px',
+          height: '10px',
+          display: 'inline-block',
+          flexShrink: '0'
+        });
+
+        const categoryLabel = document.createElement('span');
+        categoryLabel.textContent =
+          `${format(category.min)} - ${format(category.max)}`;
+
+        categoryContainer.append(categoryColor, categoryLabel);
+        legendContainer.appendChild(categoryContainer);
+      });
+    }
+  };
+}
+
+// title shown above a viewport when comparing side by side
+export function createCaption() {
+  const caption = document.createElement('div');
+  Object.assign(caption.style, {
+    position: 'fixed',
+    top: '10px',
+    transform: 'translateX(-50%)',
+    padding: '2px 8px',
+    borderRadius: '999px',
+    background: '#000',
+    color: '#fff',
+    fontFamily: 'Arial',
+    fontSize: '12px',
+    pointerEvents: 'none',
+    display: 'none'
+  });
+  document.body.appendChild(caption);
+
+  return {
+    // center the caption on x, in pixels from the left of the window
+    show(text: string, x: number) {
+      caption.textContent = text;
+      caption.style.left = `${x}px`;
+      caption.style.display = 'block';
+    },
+
+    hide() {
+      caption.style.display = 'none';
+    }
+  };
+}
@@ -0,0 +1,36 @@
+// this module defines the detail levels of the country meshes. Far from the globe
+// outlines are simplified and few interior points are sampled, close up outline
+// edges are split finer and the interior is sampled densely. The camera distance
+// picks the level to draw
+
+export interface DetailLevel {
+  name: string;
+  tolerance: number;   // outline simplification in degrees of arc, 0 keeps every vertex
+  segment: number;     // longest outline edge relative to the dataset's maxSegment, see outline.ts
+  density: number;     // interior points relative to the default sampling
+  distance: number;    // drawn while the camera is at least this far from its target
+}
+
+// from far to near, distances decreasing
+export const DETAIL_LEVELS: DetailLevel[] = [
+  { name: 'coarse', tolerance: 0.1, segment: 1, density: 0.3, distance: 5.5 },
+  { name: 'default', tolerance: 0, segment: 1, density: 1, distance: 3 },
+  { name: 'fine', tolerance: 0, segment: 0.25, density: 2, distance: 0 }
+];
+
+// the level loaded first, stored in the mesh bundle, the others are generated when first drawn
+export const DEFAULT_LEVEL = 1;
+
+// distance past a switching point before the level changes, so it does not flicker
+const HYSTERESIS = 0.2;
+
+/**
+ * Level to draw at a camera distance.
+ * @param current level drawn now, kept while the distance is close to where it switches
+ */
+export function detailLevelAt(distance: number, current: number): number {
+  const level = Math.max(0, DETAIL_LEVELS.findIndex(detail => distance >= detail.distance));
+  if (Math.abs(level - current) !== 1) return level;
+  const switching = DETAIL_LEVELS[Math.min(level, current)].distance;
+  return Math.abs(distance - switching) < HYSTERESIS ? current : level;
+}
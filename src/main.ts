@@ -2,11 +2,28 @@ import * as THREE from 'three';
 // @ts-ignore
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { CSS2DObject, CSS2DRenderer } from 'three/examples/jsm/renderers/CSS2DRenderer.js';
-import type { CountryData } from './types';
-import { countries, generateCountryData, allEdgesAreBoundary, loadAllCountries } from './countries';
-import { formatPopulationData, loadCSV } from './helper';
-import { createControlPanel, createPopulationLegend, createRangeSlider, createToggle } from './legend';
-import { MeshNumber } from './constants';
+import type { CountryData, IndicatorDataset, IndicatorValue } from './types';
+import { countries, countryArea, countryCentroid, loadAllCountries } from './countries';
+import { createButton, createCaption, createControlPanel, createLegend, createLoadingIndicator, createPlaybackControls, createRangeSlider, createSelect, createToggle } from './legend';
+import { generateCountryDataInWorkers } from './workerPool';
+import { loadMeshBundle } from './meshBundle';
+import { CountryBatch, EXTRUDE_HEIGHT } from './batch';
+import { DEFAULT_LEVEL, DETAIL_LEVELS, detailLevelAt } from './lod';
+import { createCameraFlight } from './flight';
+import { createInfoPanel } from './infoPanel';
+import { createTimeSeriesChart, SERIES_COLORS } from './chart';
+import { createPlayback } from './playback';
+import { CLASSIFICATION_SCHEMES, classify, colorIndicator, NO_DATA_COLOR, rampColors, type Classification, type ClassificationScheme } from './classification';
+import { assignQualitativeColors, DEFAULT_DIVERGING_PALETTE, DEFAULT_PALETTE, DEFAULT_QUALITATIVE_PALETTE, getPalette, paletteLabel, PALETTES, type Palette } from './palettes';
+import { DEFAULT_INDICATOR, formatIndicatorLegendValue, formatIndicatorValue, joinReport, loadIndicators, logJoinReport } from './indicators';
+import { derivedIndicators } from './derived';
+import { prismHeight, PRISM_SCALES, type PrismScale } from './prism';
+import { countryLabelAnchor, drawLabels, LABEL_PRIORITIES, layoutLabels, measureLabel, type LabelPriority } from './labels';
+import { createSearchBox } from './search';
+import { createRecorder, downloadBlob, downloadCanvas, exportGLTF, exportOBJ, exportTriangles, IMAGE_SIZES, renderImage } from './export';
+import { bindingValue, classifyDifference, COMPARE_MODES, differenceValues, displayDataset, type CompareMode, type DataBinding } from './binding';
+import { decodeViewState, encodeViewState, LAYERS, type Layer, type ViewState } from './viewState';
+import { MAP_PROJECTIONS, projectionOutline, projectSpherePoint, type MapProjection } from './projection';
 
 
 function getCameraZ() {
@@ -19,9 +36,36 @@ function getCameraZ() {
   return window.innerWidth / 400; // desktop default
 }
 
-const populationCsv = await loadCSV('API_SP.POP.TOTL_DS2_en_csv_v2_34.csv');
-const populationData = formatPopulationData(populationCsv);
-let populationYear = '2024';
+const indicators = await loadIndicators();
+let indicatorData = indicators.find(dataset => dataset.code === DEFAULT_INDICATOR) ?? indicators[0];
+let currentYear = '2024';
+// classes are computed from the active year or from all years of the indicator
+let classification: Classification = { scheme: 'log', categories: [] };
+let classCount = 9;
+let classBasis: 'year' | 'all' = 'all';
+let palette = getPalette(DEFAULT_PALETTE);
+// prism mode extrudes countries by their value instead of a constant height
+let prismMode = false;
+let prismScale: PrismScale = 'sqrt';
+// flat mode morphs the globe into a map projection
+let flatMap = false;
+let mapProjection: MapProjection = 'equal-earth';
+let labelPriority: LabelPriority = 'area';
+// comparison of the main year and indicator with a second year, see binding.ts
+let compareMode: CompareMode = 'off';
+let compareYear = '1990';
+let compareIndicator = indicatorData;
+// km² per labeled country, used to rank labels and hide small countries when zoomed out
+const labelAreas = new Map<number, number>();
+// the view is mirrored in the URL hash, see viewState.ts
+let restoringView = false;
+let pushView = false;
+let viewSaveTimer: ReturnType<typeof setTimeout> | undefined;
+// PNG exports render offscreen at this size, see export.ts
+let imageSize = 'screen';
+// the WebGL canvas with the labels drawn over it, this is what gets recorded
+const recordCanvas = document.createElement('canvas');
+const recorder = createRecorder(recordCanvas);
 // --- Three.js setup ---
 const scene = new THREE.Scene();
 const camera = new THREE.PerspectiveCamera(45, window.innerWidth / window.innerHeight, 0.1, 100);
@@ -51,6 +95,19 @@ const sphere = new THREE.Mesh(
 );
 scene.add(sphere);
 
+// ocean of the flat map, shaped like the outline of the projection
+const ocean = new THREE.Mesh(new THREE.BufferGeometry(), sphere.material);
+ocean.position.z = -0.001;
+ocean.visible = false;
+scene.add(ocean);
+
+function updateOcean() {
+  const outline = projectionOutline(mapProjection).map(({ x, y }) => new THREE.Vector2(x, y));
+  ocean.geometry.dispose();
+  ocean.geometry = new THREE.ShapeGeometry(new THREE.Shape(outline));
+}
+updateOcean();
+
 // --- Groups ---
 const ptsGroup = new THREE.Group();
 const triGroup = new THREE.Group();
@@ -66,32 +123,73 @@ const sun = new THREE.DirectionalLight(0xffffff, 1.2);
 sun.position.set(5, 3, 2);
 scene.add(sun);
 
-async function buildScene() {
+// merged surfaces, points and edges of all countries, created once countries are known
+let batch: CountryBatch | undefined;
+const labelGroup = new THREE.Group();
+
+/**
+ * @param loading progress of the countries drawn, removed once all are
+ */
+async function buildScene(loading: ReturnType<typeof createLoadingIndicator>) {
   await loadAllCountries();
-  generateCountryData();
-  surfaceGroup.children.forEach(mesh => {
-    mesh.children
-    .filter(c => c instanceof CSS2DObject)
-    .forEach(label => {
-      mesh.remove(label);
-      label.element.remove(); // IMPORTANT
-    });
-  });
+  // density needs the country areas, so derived indicators are added once countries are known
+  const population = indicators.find(dataset => dataset.code === DEFAULT_INDICATOR);
+  if (population && !indicators.some(dataset => dataset.code.startsWith('derived.'))) {
+    indicators.push(...derivedIndicators(population, countries));
+    indicatorSelect.setOptions(indicatorOptions());
+    compareIndicatorSelect.setOptions(indicatorOptions());
+  }
+  assignQualitativeColors(countries, palette.kind === 'qualitative' ? palette : getPalette(DEFAULT_QUALITATIVE_PALETTE));
+  reclassify(classification.scheme);
+  labelGroup.children.forEach(label => (label as CSS2DObject).element.remove()); // IMPORTANT
+  labelGroup.clear();
   ptsGroup.clear();
   triGroup.clear();
   surfaceGroup.clear();
-  let previousCountry: CountryData | undefined = undefined;
-  for (const country of countries) {
-    if(previousCountry && previousCountry.mesh && previousCountry.name !== country.name) {
-      const meshIndex = MeshNumber[previousCountry.name] || 0;
-      const population = populationData?.countries?.[previousCountry.name]?.[populationYear];
-      previousCountry.label = drawLabel(previousCountry.name, previousCountry.mesh[meshIndex], population?.population);
-    }
-    for (let i = 0; i < country.polygons.length; i++) {
-      drawCountry(country, i);
+
+  batch = new CountryBatch(countries.length);
+  batch.setViewCount(viewports.length);
+  batch.setProjection(mapProjection);
+  batch.setFlat(flatMap);
+  // derived indicators and the selection of a shared view are only known now
+  const view = decodeViewState(location.hash, defaultView);
+  applyViewState({ indicator: view.indicator, selected: view.selected, compare: view.compare });
+  ptsGroup.add(batch.points);
+  triGroup.add(batch.edges);
+  surfaceGroup.add(batch.surfaces, labelGroup);
+
+  // countries are drawn as soon as their geometry is loaded from the
+  // precomputed bundle or comes back from the workers
+  let loaded = 0;
+  loading.update(loaded, countries.length);
+  const onCountry = (country: CountryData) => {
+    drawCountry(country);
+    const data = bindingValue(viewports[0].binding, country.iso);
+    if (country.polygons.length) {
+      country.label = drawLabel(country.name, countryLabelAnchor(country), data?.value ?? NaN);
+      labelAreas.set(country.id, countryArea(country));
     }
-    previousCountry = country;
-  }
+    loading.update(++loaded, countries.length);
+  };
+  const missing = await loadMeshBundle(countries, onCountry);
+  await generateCountryDataInWorkers(missing, onCountry);
+  batch.compact();
+  loading.remove();
+  logJoinReport(joinReport(countries, indicatorData, currentYear));
+  generatedLevels = new Set([DEFAULT_LEVEL]);
+}
+
+// detail levels generated or being generated, unset until the default level is drawn
+let generatedLevels: Set<number> | undefined;
+
+// the other detail levels are generated in the background the first time the camera distance picks them
+function generateLevel(level: number) {
+  if (!batch || !generatedLevels || generatedLevels.has(level)) return;
+  generatedLevels.add(level);
+  const built = batch;
+  generateCountryDataInWorkers(countries, () => {}, level)
+    .then(() => built.addLevel(level, countries))
+    .catch(error => console.warn(`Countries could not be generated at the ${DETAIL_LEVELS[level].name} detail level`, error));
 }
 
 const labelRenderer = new CSS2DRenderer();
@@ -101,37 +199,20 @@ labelRenderer.domElement.style.top = '0';
 labelRenderer.domElement.style.pointerEvents = 'none';
 document.body.appendChild(labelRenderer.domElement);
 
-function getMeshLabelPosition(mesh: THREE.Mesh) {
-  const geometry = mesh.geometry
-  geometry.computeBoundingBox()
-
-  const box = geometry.boundingBox!
-  const center = new THREE.Vector3()
-  box.getCenter(center)
-
-  return center
-}
-
-function formatPopulationForDisplay(population: number) {
-  if (isNaN(population)) return 'No Data';
-  const populationAsString = String(population);
-  let formatted = '';
-  let distance = 0;
-  for (let i = populationAsString.length - 1; i > -1; i--) {
-    formatted = populationAsString[i] + formatted;
-    distance++;
-    if (distance === 3 && i !== 0) {
-      formatted = ',' + formatted;
-      distance = 0;
-    }
-  }
-  return formatted;
+// halfway up the extruded surface, labels follow the prism heights and the map morph
+function placeLabel(country: CountryData) {
+  if (!country.label) return;
+  const height = batch?.getHeight(country.id) ?? EXTRUDE_HEIGHT;
+  const anchor = country.label.userData.anchor as THREE.Vector3;
+  const globe = anchor.clone().multiplyScalar(1 + height / 2);
+  const { x, y } = projectSpherePoint(anchor, mapProjection);
+  country.label.position.lerpVectors(globe, new THREE.Vector3(x, y, height / 2), batch?.morph ?? 0);
 }
 
 function drawLabel(
   name: string,
-  shape: THREE.Mesh,
-  population: number
+  position: THREE.Vector3,
+  value: number
 ): CSS2DObject {
 
   const nameDiv = document.createElement('div');
@@ -140,179 +221,814 @@ function drawLabel(
   nameDiv.style.fontSize = '8px';
 
   const nameP = document.createElement('p');
+  nameP.style.margin = '0';
   nameP.textContent = name;
 
-  const populationP = document.createElement('p');
-  populationP.style.fontWeight = 'bold';
-  populationP.textContent = formatPopulationForDisplay(population);
+  const valueP = document.createElement('p');
+  valueP.style.margin = '0';
+  valueP.style.fontWeight = 'bold';
+  valueP.textContent = formatIndicatorValue(value, displayDataset(viewports[0].binding));
 
   nameDiv.appendChild(nameP);
-  nameDiv.appendChild(populationP);
+  nameDiv.appendChild(valueP);
 
   const label = new CSS2DObject(nameDiv);
 
   // store reference for later updates
-  (label as any).populationEl = populationP;
-
-  // horizon culling (your existing logic)
-  const tmpPos = new THREE.Vector3();
-  const tmpCamDir = new THREE.Vector3();
-  const globeCenter = new THREE.Vector3();
-
-  label.onBeforeRender = (_, __, camera) => {
-    label.getWorldPosition(tmpPos);
-    const normal = tmpPos.sub(globeCenter).normalize();
-    tmpCamDir.copy(camera.position).sub(globeCenter).normalize();
-    label.element.style.display =
-      normal.dot(tmpCamDir) > 0.7 ? 'block' : 'none';
-  };
+  (label as any).valueEl = valueP;
+  label.userData.size = measureLabel([name, valueP.textContent]);
 
-  label.position.copy(getMeshLabelPosition(shape));
-  shape.add(label);
+  label.userData.anchor = position.clone();
+  label.position.copy(position).multiplyScalar(1 + EXTRUDE_HEIGHT / 2);
+  labelGroup.add(label);
 
   return label;
 }
 
 
-function drawCountry(country: CountryData, index: number) {
-  // --- Points ---
-  const ptsGeom = new THREE.BufferGeometry();
-  const positions: number[] = [];
-  const colors: number[] = [];
-  const colorBoundary = new THREE.Color(0xff0000);
-  const colorInternal = new THREE.Color(0xffcc00);
-  const colorOffset = new THREE.Color(0x6feb17);
-
-  for (let i = 0; i < country.spherePoints[index].length; i++) {
-    const p = country.spherePoints[index][i];
-    positions.push(p.x, p.y, p.z);
-    const c = country.points[index][i].boundary ? colorBoundary : country.points[index][i].offset ? colorOffset : colorInternal;
-    colors.push(c.r, c.g, c.b);
-  }
-
-  ptsGeom.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-  ptsGeom.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
-  country.pointsMesh?.push(new THREE.Points(ptsGeom, new THREE.PointsMaterial({ size: 0.005, vertexColors: true })));
-  country.pointsMesh?.[index] && ptsGroup.add(country.pointsMesh[index]);
-
-  // --- Triangles ---
-  const triPositions: number[] = [];
-  for (const t of country.triangles[index]) {
-    const [a, b, c] = t;
-    const A = country.spherePoints[index][a], B = country.spherePoints[index][b], C = country.spherePoints[index][c];
-    // Only draw if at least one point is not a boundary
-    const polygonEdgeTri = allEdgesAreBoundary(
-      country.points[index][a],
-      country.points[index][b],
-      country.points[index][c]
-    );
-
-    if (polygonEdgeTri) continue;
-
-    // Add edges
-    triPositions.push(
-      A.x, A.y, A.z, B.x, B.y, B.z,
-      B.x, B.y, B.z, C.x, C.y, C.z,
-      C.x, C.y, C.z, A.x, A.y, A.z
-    );
-  }
-  const triGeom = new THREE.BufferGeometry();
-  triGeom.setAttribute('position', new THREE.Float32BufferAttribute(triPositions, 3));
-  country.edges?.push(new THREE.LineSegments(triGeom, new THREE.LineBasicMaterial({ color: 0xffffff })));
-  country.edges?.[index] && triGroup.add(country.edges[index]);
-
-  // --- Surface ---
-  const positionsSurf: number[] = [];
-  const colorsSurf: number[] = [];
-  const extrudeHeight = 0.01;
-
-  for (const t of country.triangles[index]) {
-    const [a, b, c] = t;
-
-    const polygonEdgeTri = allEdgesAreBoundary(
-      country.points[index][a],
-      country.points[index][b],
-      country.points[index][c],
-    );
-
-    if (polygonEdgeTri) continue;
-
-    const A0 = new THREE.Vector3(...Object.values(country.spherePoints[index][a]));
-    const B0 = new THREE.Vector3(...Object.values(country.spherePoints[index][b]));
-    const C0 = new THREE.Vector3(...Object.values(country.spherePoints[index][c]));
-    const An = A0.clone().normalize().multiplyScalar(extrudeHeight);
-    const Bn = B0.clone().normalize().multiplyScalar(extrudeHeight);
-    const Cn = C0.clone().normalize().multiplyScalar(extrudeHeight);
-
-    const A1 = A0.clone().add(An);
-    const B1 = B0.clone().add(Bn);
-    const C1 = C0.clone().add(Cn);
-
-    const col = new THREE.Color(0x44aa88);
-
-    pushTriSurf(A0, B0, C0, col);
-    pushTriSurf(A1, C1, B1, col);
-    pushQuadSurf(A0, B0, A1, B1, col);
-    pushQuadSurf(B0, C0, B1, C1, col);
-    pushQuadSurf(C0, A0, C1, A1, col);
-  }
-
-  const geomSurf = new THREE.BufferGeometry();
-  geomSurf.setAttribute("position", new THREE.Float32BufferAttribute(positionsSurf, 3));
-  geomSurf.setAttribute("color", new THREE.Float32BufferAttribute(colorsSurf, 3));
-  geomSurf.computeVertexNormals();
-  const population = populationData?.countries?.[country.name]?.[populationYear];
-  country.mesh?.push(new THREE.Mesh(geomSurf, new THREE.MeshStandardMaterial({ color: population?.color || 0xffffff, side: THREE.DoubleSide })));
-  country.mesh?.[index] && surfaceGroup.add(country.mesh[index]);
-
-  function pushTriSurf(v1: THREE.Vector3, v2: THREE.Vector3, v3: THREE.Vector3, color: THREE.Color) {
-    positionsSurf.push(v1.x, v1.y, v1.z, v2.x, v2.y, v2.z, v3.x, v3.y, v3.z);
-    for (let i = 0; i < 3; i++) colorsSurf.push(color.r, color.g, color.b);
-  }
-  function pushQuadSurf(a: THREE.Vector3, b: THREE.Vector3, a2: THREE.Vector3, b2: THREE.Vector3, color: THREE.Color) {
-    pushTriSurf(a, b, a2, color);
-    pushTriSurf(b, b2, a2, color);
-  }
-}
-
-function updatePopulationYear() {
+function drawCountry(country: CountryData) {
+  for (const viewport of activeViewports()) paintCountry(country, viewport);
+  batch?.add(country);
+}
+
+// color and height of a country in one viewport, uploaded as textures on the next render
+function paintCountry(country: CountryData, { view, binding }: Viewport) {
+  const data = bindingValue(binding, country.iso);
+  batch?.setColor(country.id, surfaceColor(country, binding, data), view);
+  batch?.setHeight(country.id, countryHeight(data?.value, binding), view);
+}
+
+// qualitative palettes tell neighboring countries apart instead of showing values
+function surfaceColor(country: CountryData, binding: DataBinding, data?: IndicatorValue) {
+  return palette.kind === 'qualitative' && binding.baseYear === undefined ? country.color : data?.color || NO_DATA_COLOR;
+}
+
+// prisms span the range of the binding's classification
+function countryHeight(value: number | undefined, { classification }: DataBinding) {
+  const { categories } = classification;
+  if (!prismMode || !categories.length) return EXTRUDE_HEIGHT;
+  return prismHeight(value, categories[0].min, categories[categories.length - 1].max, prismScale);
+}
+
+/**
+ * Recolor surfaces for a year of the main viewport and repaint the others.
+ * Labels show the main viewport.
+ * @param position year to show, fractional years interpolate between the surrounding ones
+ */
+function updateIndicatorYear(position = Number(currentYear)) {
+  const [main] = viewports;
+  main.binding.year = position;
+  for (const viewport of activeViewports()) {
+    for (const country of countries) paintCountry(country, viewport);
+  }
+  updateCaptions();
+
   for (const country of countries) {
-    const pop = populationData?.countries?.[country.name]?.[populationYear];
-    if (!pop) continue;
-
-    // update mesh colors
-    country.mesh?.forEach(mesh => {
-      const material = mesh.material as THREE.MeshStandardMaterial;
-      material.color.set(pop.color);
-      material.needsUpdate = true;
-    });
-
-    // update label text
-    if (country.label) {
-      const popEl = (country.label as any).populationEl as HTMLParagraphElement;
-      popEl.textContent = formatPopulationForDisplay(pop.population);
+    if (!country.label) continue;
+    const valueEl = (country.label as any).valueEl as HTMLParagraphElement;
+    const text = formatIndicatorValue(bindingValue(main.binding, country.iso)?.value ?? NaN, displayDataset(main.binding));
+    if (valueEl.textContent !== text) {
+      valueEl.textContent = text;
+      country.label.userData.size = measureLabel([country.name, text]);
+    }
+  }
+}
+
+// side by side, each viewport is titled with its indicator and year
+function updateCaptions() {
+  const active = activeViewports();
+  viewports.forEach((viewport, i) => {
+    const { indicator, year } = viewport.binding;
+    if (active.length > 1 && i < active.length) viewport.caption.show(`${indicator.name}, ${Math.floor(year)}`, (i + 0.5) * viewportWidth());
+    else viewport.caption.hide();
+  });
+}
+
+// show a fractional year while playing, panels follow whole years only
+function showYear(position: number) {
+  updateIndicatorYear(position);
+  const year = String(Math.floor(position));
+  if (year === currentYear) return;
+  currentYear = year;
+  yearSlider.setValue(Number(year), false);
+  if (classBasis === 'year') reclassify(classification.scheme);
+  updateInfoPanel();
+  updateChart();
+  saveViewState(false);
+}
+
+// --- Picking ---
+const raycaster = new THREE.Raycaster();
+const pointer = new THREE.Vector2();
+let hoverPosition: { x: number, y: number } | undefined;
+let pointerDownPosition: { x: number, y: number } | undefined;
+// countries compared in the chart, the last one is shown in the info panel
+let selectedCountries: CountryData[] = [];
+const flight = createCameraFlight(camera, controls);
+const infoPanel = createInfoPanel(() => selectCountry(undefined), () => toggleCountryHidden());
+const chart = createTimeSeriesChart({
+  onYearClick: year => {
+    yearSlider.setValue(year);
+    saveViewState(true);
+  }
+});
+
+function pickCountry(x: number, y: number): CountryData | undefined {
+  const active = activeViewports();
+  const width = viewportWidth();
+  const index = Math.min(active.length - 1, Math.floor(x / width));
+  pointer.set(((x - index * width) / width) * 2 - 1, -(y / window.innerHeight) * 2 + 1);
+  raycaster.setFromCamera(pointer, camera);
+  const hit = batch?.pick(raycaster, active[index].view);
+  return hit ? countries[hit.id] : undefined;
+}
+
+// position of the country among all countries with data for the current year, largest first
+// aggregates like World or regions have no feature and are left out
+function valueRank(iso: string) {
+  const ranked = countries
+    .map(country => ({ iso: country.iso, value: indicatorData.countries[country.iso]?.[currentYear]?.value }))
+    .filter(entry => entry.value !== undefined && !isNaN(entry.value))
+    .sort((a, b) => b.value - a.value);
+  const position = ranked.findIndex(entry => entry.iso === iso);
+  return position === -1 ? undefined : { position: position + 1, total: ranked.length };
+}
+
+function updateInfoPanel() {
+  const selectedCountry = selectedCountries[selectedCountries.length - 1];
+  if (!selectedCountry) return;
+  // whole years only, the main binding may sit between two while playing
+  const binding = { ...viewports[0].binding, year: Number(currentYear) };
+  const data = bindingValue(binding, selectedCountry.iso);
+  infoPanel.show({
+    name: selectedCountry.name,
+    iso: selectedCountry.iso,
+    year: binding.baseYear === undefined ? currentYear : `${binding.baseYear}–${currentYear}`,
+    value: formatIndicatorValue(data?.value ?? NaN, displayDataset(binding)),
+    rank: valueRank(selectedCountry.iso),
+    hidden: !(batch?.isVisible(selectedCountry.id) ?? true)
+  });
+}
+
+// hide the country in the info panel or show it again, it stays selected
+// so it can be shown again, or found with the search box once deselected
+function toggleCountryHidden() {
+  const country = selectedCountries[selectedCountries.length - 1];
+  if (!country || !batch) return;
+  batch.setVisible(country.id, !batch.isVisible(country.id));
+  updateInfoPanel();
+}
+
+function updateChart() {
+  chart.update(selectedCountries.map((country, i) => ({
+    name: country.name,
+    color: SERIES_COLORS[i % SERIES_COLORS.length],
+    values: Object.entries(indicatorData?.countries?.[country.iso] ?? {})
+      .map(([year, { value }]) => ({ year: Number(year), value }))
+  })), Number(currentYear));
+}
+
+// tint the selected countries and show them in the chart and info panel
+function setSelection(selection: CountryData[]) {
+  selectedCountries = selection;
+  batch?.setSelected(selectedCountries.map(c => c.id));
+  updateChart();
+  if (!selectedCountries.length) {
+    infoPanel.hide();
+    return;
+  }
+  updateInfoPanel();
+}
+
+/**
+ * Select a country and fly to it, or clear the selection with undefined.
+ * @param add keep the current selection and toggle `country` in it
+ */
+function selectCountry(country: CountryData | undefined, add = false) {
+  if (add && country) {
+    setSelection(selectedCountries.includes(country)
+      ? selectedCountries.filter(c => c !== country)
+      : [...selectedCountries, country]);
+  } else {
+    setSelection(country ? [country] : []);
+  }
+  saveViewState(true);
+  if (country && selectedCountries.includes(country)) {
+    const centroid = countryCentroid(country);
+    if (flatMap) {
+      const { x, y } = projectSpherePoint(centroid, mapProjection);
+      flight.panTo(new THREE.Vector3(x, y, 0));
+    } else {
+      flight.flyTo(new THREE.Vector3(centroid.x, centroid.y, centroid.z));
     }
   }
 }
 
-// create control panel and legend
+renderer.domElement.addEventListener('pointermove', (event) => {
+  hoverPosition = { x: event.clientX, y: event.clientY };
+});
+renderer.domElement.addEventListener('pointerleave', () => {
+  hoverPosition = undefined;
+  batch?.setHighlighted(undefined);
+  renderer.domElement.style.cursor = '';
+});
+renderer.domElement.addEventListener('pointerdown', (event) => {
+  pointerDownPosition = { x: event.clientX, y: event.clientY };
+});
+renderer.domElement.addEventListener('pointerup', (event) => {
+  // a drag rotates the globe, only a click selects
+  if (!pointerDownPosition) return;
+  const moved = Math.hypot(event.clientX - pointerDownPosition.x, event.clientY - pointerDownPosition.y);
+  pointerDownPosition = undefined;
+  if (moved > 4) return;
+  // shift-click adds countries to the comparison
+  const country = pickCountry(event.clientX, event.clientY);
+  if (event.shiftKey && !country) return;
+  selectCountry(country, event.shiftKey);
+});
+
+// hover picking runs once per frame for the latest pointer position
+function updateHover() {
+  if (!hoverPosition) return;
+  const country = pickCountry(hoverPosition.x, hoverPosition.y);
+  batch?.setHighlighted(country?.id);
+  renderer.domElement.style.cursor = country ? 'pointer' : '';
+  hoverPosition = undefined;
+}
+
+// each viewport shows the countries through its own data binding, they share the
+// camera and the geometry. The second one is only shown side by side
+interface Viewport {
+  view: number;            // colors and heights in the batch, see CountryBatch.useView
+  binding: DataBinding;
+  legend: ReturnType<typeof createLegend>;
+  caption: ReturnType<typeof createCaption>;
+}
+
+// create control panel, legends and viewports
 const cpanel = createControlPanel();
-createToggle(cpanel, 'Show Points', ptsGroup, false);
-createToggle(cpanel, 'Show Edges', triGroup, false);
-createToggle(cpanel, 'Show Surfaces', surfaceGroup, true);
-createRangeSlider({cpanel, onChange: (value) => {
-  populationYear = String(value);
-  updatePopulationYear();
+const viewports: Viewport[] = [
+  { view: 0, binding: { indicator: indicatorData, year: Number(currentYear), classification }, legend: createLegend(), caption: createCaption() },
+  { view: 1, binding: { indicator: compareIndicator, year: Number(compareYear), classification }, legend: createLegend('right'), caption: createCaption() }
+];
+
+function activeViewports() {
+  return compareMode === 'split' ? viewports : viewports.slice(0, 1);
+}
+
+// viewports split the window into equal columns
+function viewportWidth() {
+  return window.innerWidth / activeViewports().length;
+}
+
+createSearchBox({
+  cpanel,
+  getCountries: () => countries,
+  onSelect: country => selectCountry(country),
+  onActive: country => batch?.setHighlighted(country?.id)
+});
+const pointsToggle = createToggle(cpanel, 'Show Points', ptsGroup, false);
+const edgesToggle = createToggle(cpanel, 'Show Edges', triGroup, false);
+const surfacesToggle = createToggle(cpanel, 'Show Surfaces', surfaceGroup, true);
+const flatToggle = createToggle(cpanel, 'Flat Map', setFlatMap, flatMap);
+const projectionSelect = createSelect({
+  cpanel,
+  label: 'Projection',
+  options: MAP_PROJECTIONS,
+  value: mapProjection,
+  onChange: projection => setMapProjection(projection as MapProjection)
+});
+const prismToggle = createToggle(cpanel, 'Prism Map', checked => {
+  prismMode = checked;
+  updateIndicatorYear();
+}, prismMode);
+const layerToggles: Record<Layer, ReturnType<typeof createToggle>> = {
+  points: pointsToggle,
+  edges: edgesToggle,
+  surfaces: surfacesToggle,
+  prism: prismToggle
+};
+const playback = createPlayback({
+  min: 1960,
+  max: 2024,
+  onChange: showYear,
+  onPlayingChange: playing => {
+    playbackControls.setPlaying(playing);
+    if (!playing && recorder.recording) {
+      stopRecording().catch(error => {
+        recordButton.setLabel('Record');
+        console.warn('The recording could not be saved', error);
+      });
+    }
+  }
+});
+const yearSlider = createRangeSlider({cpanel, onChange: (value) => {
+  currentYear = String(value);
+  playback.seek(value);
+  if (classBasis === 'year') reclassify(classification.scheme);
+  else updateIndicatorYear();
+  updateInfoPanel();
+  updateChart();
 }});
-createPopulationLegend();
+const playbackControls = createPlaybackControls({
+  cpanel,
+  onToggle: () => playback.toggle(),
+  onSpeedChange: speed => playback.setSpeed(speed)
+});
+const indicatorOptions = () => indicators.map(dataset => ({ value: dataset.code, label: dataset.name }));
+const indicatorSelect = createSelect({
+  cpanel,
+  label: 'Indicator',
+  options: indicatorOptions(),
+  value: indicatorData.code,
+  onChange: code => setIndicator(code)
+});
+const compareSelect = createSelect({
+  cpanel,
+  label: 'Compare',
+  options: COMPARE_MODES,
+  value: compareMode,
+  onChange: mode => setCompareMode(mode as CompareMode)
+});
+const compareControls = document.createElement('div');
+const compareIndicatorControls = document.createElement('div');
+cpanel.append(compareControls, compareIndicatorControls);
+const compareYearSelect = createSelect({
+  cpanel: compareControls,
+  label: 'Compare with year',
+  options: Array.from({ length: 2024 - 1960 + 1 }, (_, i) => ({ value: String(1960 + i), label: String(1960 + i) })),
+  value: compareYear,
+  onChange: year => {
+    compareYear = year;
+    reclassify(classification.scheme);
+    updateInfoPanel();
+  }
+});
+const compareIndicatorSelect = createSelect({
+  cpanel: compareIndicatorControls,
+  label: 'Compare indicator',
+  options: indicatorOptions(),
+  value: compareIndicator.code,
+  onChange: code => {
+    compareIndicator = indicators.find(dataset => dataset.code === code) ?? compareIndicator;
+    reclassify(classification.scheme);
+  }
+});
+setCompareMode(compareMode);
+createSelect({
+  cpanel,
+  label: 'Palette',
+  options: PALETTES.map(palette => ({ value: palette.name, label: paletteLabel(palette) })),
+  value: palette.name,
+  onChange: name => {
+    palette = getPalette(name);
+    if (palette.kind === 'qualitative') assignQualitativeColors(countries, palette);
+    reclassify(classification.scheme);
+  }
+});
+createSelect({
+  cpanel,
+  label: 'Prism scale',
+  options: PRISM_SCALES,
+  value: prismScale,
+  onChange: scale => {
+    prismScale = scale as PrismScale;
+    updateIndicatorYear();
+  }
+});
+createSelect({
+  cpanel,
+  label: 'Label priority',
+  options: LABEL_PRIORITIES,
+  value: labelPriority,
+  onChange: priority => labelPriority = priority as LabelPriority
+});
+createSelect({
+  cpanel,
+  label: 'Classification',
+  options: CLASSIFICATION_SCHEMES,
+  value: classification.scheme,
+  onChange: scheme => reclassify(scheme as ClassificationScheme)
+});
+createSelect({
+  cpanel,
+  label: 'Classes',
+  options: [3, 4, 5, 6, 7, 8, 9].map(count => ({ value: String(count), label: String(count) })),
+  value: String(classCount),
+  onChange: count => {
+    classCount = Number(count);
+    reclassify(classification.scheme);
+  }
+});
+createSelect({
+  cpanel,
+  label: 'Classes from',
+  options: [{ value: 'all', label: 'All years' }, { value: 'year', label: 'Active year' }],
+  value: classBasis,
+  onChange: basis => {
+    classBasis = basis as 'year' | 'all';
+    reclassify(classification.scheme);
+  }
+});
+createSelect({
+  cpanel,
+  label: 'Image size',
+  options: IMAGE_SIZES,
+  value: imageSize,
+  onChange: size => imageSize = size
+});
+createButton(cpanel, 'Save PNG', () => saveImage());
+const recordButton = createButton(cpanel, 'Record', () => toggleRecording());
+createButton(cpanel, 'Export glTF', () => exportMeshes('gltf'));
+createButton(cpanel, 'Export OBJ', () => exportMeshes('obj'));
+createButton(cpanel, 'Export GeoJSON', () => exportMeshes('geojson'));
+
+/**
+ * Recompute the classes of the active indicator, rebind the viewports and
+ * recolor countries and legends.
+ */
+function reclassify(scheme: ClassificationScheme) {
+  const colors = (palette: Palette) => scheme === 'continuous' ? palette.colors : rampColors(palette.colors, classCount);
+  classification = classify(indicatorValues(indicatorData, currentYear), scheme, colors(palette));
+  colorIndicator(indicatorData, classification);
+
+  const [main, second] = viewports;
+  main.binding = { indicator: indicatorData, year: Number(currentYear), classification };
+  if (compareMode === 'difference') {
+    const years = classBasis === 'year'
+      ? [currentYear]
+      : [...new Set(Object.values(indicatorData.countries).flatMap(years => Object.keys(years)))];
+    const values = differenceValues(indicatorData, years, compareYear, countries.map(country => country.iso));
+    const diverging = palette.kind === 'diverging' ? palette : getPalette(DEFAULT_DIVERGING_PALETTE);
+    main.binding.baseYear = compareYear;
+    main.binding.classification = classifyDifference(values, scheme, colors(diverging));
+  }
+  if (compareMode === 'split') {
+    // the same indicator keeps the same classes on both sides so colors compare
+    let secondClassification = classification;
+    if (compareIndicator !== indicatorData) {
+      secondClassification = classify(indicatorValues(compareIndicator, compareYear), scheme, colors(palette));
+      colorIndicator(compareIndicator, secondClassification);
+    }
+    second.binding = { indicator: compareIndicator, year: Number(compareYear), classification: secondClassification };
+  }
+
+  for (const viewport of viewports) updateLegend(viewport);
+  second.legend.setVisible(compareMode === 'split');
+  updateIndicatorYear();
+}
+
+/**
+ * Values of a dataset to classify, from the active year or all years.
+ * Only countries on the globe are classified, aggregates like World would stretch the classes.
+ */
+function indicatorValues(dataset: IndicatorDataset, year: string) {
+  return countries.flatMap(country => {
+    const years = dataset.countries[country.iso];
+    if (!years) return [];
+    return classBasis === 'year'
+      ? [years[year]?.value ?? NaN]
+      : Object.values(years).map(data => data.value);
+  });
+}
+
+function updateLegend({ binding, legend }: Viewport) {
+  const { indicator, baseYear, classification } = binding;
+  if (baseYear !== undefined) {
+    legend.update(`Change in ${indicator.name} since ${baseYear}`, classification, '',
+      value => formatIndicatorLegendValue(value, displayDataset(binding)));
+  } else if (palette.kind === 'qualitative') {
+    legend.update(indicator.name, { scheme: classification.scheme, categories: [] }, `${palette.label}: colors only separate neighboring countries`);
+  } else {
+    legend.update(indicator.name, classification, '', value => formatIndicatorLegendValue(value, indicator));
+  }
+}
+
+function setCompareMode(mode: CompareMode) {
+  compareMode = mode;
+  compareControls.style.display = mode === 'off' ? 'none' : 'block';
+  compareIndicatorControls.style.display = mode === 'split' ? 'block' : 'none';
+  reclassify(classification.scheme);
+  updateInfoPanel();
+}
+
+// switch the active indicator, recoloring and relabeling the countries
+function setIndicator(code: string) {
+  const dataset = indicators.find(dataset => dataset.code === code);
+  if (!dataset) return;
+  indicatorData = dataset;
+  if (countries.length) logJoinReport(joinReport(countries, dataset, currentYear));
+  reclassify(classification.scheme);
+  updateInfoPanel();
+  updateChart();
+}
+
+// the flat map only pans and zooms, the camera faces it straight on
+function setFlatMap(flat: boolean) {
+  if (flat === flatMap) return;
+  flatMap = flat;
+  batch?.setFlat(flat);
+  controls.enableRotate = !flat;
+  controls.mouseButtons.LEFT = flat ? THREE.MOUSE.PAN : THREE.MOUSE.ROTATE;
+  controls.touches.ONE = flat ? THREE.TOUCH.PAN : THREE.TOUCH.ROTATE;
+  controls.minDistance = flat ? 0.5 : 2;
+  flight.flyTo(new THREE.Vector3(0, 0, 1), Math.max(camera.position.distanceTo(controls.target), 2));
+}
+
+function setMapProjection(projection: MapProjection) {
+  if (projection === mapProjection) return;
+  mapProjection = projection;
+  batch?.setProjection(mapProjection);
+  updateOcean();
+  countries.forEach(placeLabel);
+}
+
+function currentViewState(): ViewState {
+  return {
+    camera: camera.position.clone(),
+    target: controls.target.clone(),
+    year: currentYear,
+    indicator: indicatorData.code,
+    layers: LAYERS.filter(layer => layerToggles[layer].checked),
+    map: flatMap ? mapProjection : undefined,
+    selected: selectedCountries.map(country => country.iso || String(country.id)),
+    compare: { mode: compareMode, year: compareYear, indicator: compareIndicator.code }
+  };
+}
+
+/**
+ * Write the view to the URL hash once changes settle. Deliberate changes add a
+ * history entry, camera moves and playback only update the current one.
+ */
+function saveViewState(push: boolean) {
+  if (restoringView) return;
+  pushView ||= push;
+  clearTimeout(viewSaveTimer);
+  viewSaveTimer = setTimeout(() => {
+    const hash = '#' + encodeViewState(currentViewState());
+    if (hash !== location.hash) {
+      if (pushView) history.pushState(null, '', hash);
+      else history.replaceState(null, '', hash);
+    }
+    pushView = false;
+  }, 300);
+}
+
+/**
+ * Restore a view, the parts left out of `state` stay as they are.
+ * The selection needs the countries and is skipped until they are loaded.
+ */
+function applyViewState(state: Partial<ViewState>) {
+  restoringView = true;
+  if (state.indicator && state.indicator !== indicatorData.code && indicators.some(d => d.code === state.indicator)) {
+    indicatorSelect.setValue(state.indicator);
+    setIndicator(state.indicator);
+  }
+  if (state.year && state.year !== currentYear) {
+    playback.pause();
+    yearSlider.setValue(Number(state.year));
+  }
+  if (state.compare) {
+    const { mode, year, indicator } = state.compare;
+    compareYear = year;
+    compareYearSelect.setValue(year);
+    compareIndicator = indicators.find(dataset => dataset.code === indicator) ?? compareIndicator;
+    compareIndicatorSelect.setValue(compareIndicator.code);
+    compareSelect.setValue(mode);
+    setCompareMode(mode);
+  }
+  if (state.layers) {
+    for (const layer of LAYERS) layerToggles[layer].setChecked(state.layers.includes(layer));
+  }
+  // the camera is only meaningful together with the map it looks at
+  if (state.camera && state.target) {
+    if (state.map) {
+      projectionSelect.setValue(state.map);
+      setMapProjection(state.map);
+    }
+    flatToggle.setChecked(!!state.map);
+    flight.stop();
+    camera.position.set(state.camera.x, state.camera.y, state.camera.z);
+    controls.target.set(state.target.x, state.target.y, state.target.z);
+    controls.update();
+  }
+  if (state.selected && countries.length) {
+    setSelection(state.selected
+      .map(code => countries.find(country => country.iso === code) ?? countries[Number(code)])
+      .filter(country => country !== undefined));
+  }
+  restoringView = false;
+}
+
+// any control of the panel changes the view
+cpanel.addEventListener('change', () => saveViewState(true));
+controls.addEventListener('end', () => saveViewState(false));
+window.addEventListener('popstate', () => applyViewState(decodeViewState(location.hash, defaultView)));
+
+// labels shown for the current view, see labels.ts
+function layoutCountryLabels(size = { width: viewportWidth(), height: window.innerHeight }) {
+  const distance = camera.position.distanceTo(controls.target);
+  const zoom = THREE.MathUtils.clamp(
+    (distance - controls.minDistance) / (controls.maxDistance - controls.minDistance), 0, 1);
+  // labels of hidden countries stay out of the layout
+  const labelled = countries.filter(country => {
+    if (!country.label) return false;
+    if (batch?.isVisible(country.id) ?? true) return true;
+    country.label.visible = false;
+    return false;
+  });
+  const candidates = labelled.map(country => ({
+    label: country.label!,
+    area: labelAreas.get(country.id) ?? 0,
+    value: indicatorData?.countries?.[country.iso]?.[currentYear]?.value ?? NaN,
+    pinned: selectedCountries.includes(country)
+  }));
+  layoutLabels(candidates, camera, size, {
+    zoom,
+    horizon: (batch?.morph ?? 0) === 0,
+    priority: labelPriority
+  });
+}
+
+/**
+ * Render each active viewport into its column of the window, labels belong to the first one.
+ * @param target offscreen target to render into instead, see export.ts
+ */
+function renderViewports(target?: THREE.WebGLRenderTarget) {
+  const active = activeViewports();
+  const width = (target?.width ?? window.innerWidth) / active.length;
+  const height = target?.height ?? window.innerHeight;
+  if (camera.aspect !== width / height) {
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+    if (!target) {
+      labelRenderer.setSize(width, height);
+      updateCaptions();
+    }
+  }
+  renderer.setScissorTest(active.length > 1);
+  active.forEach((viewport, i) => {
+    if (target) {
+      target.viewport.set(i * width, 0, width, height);
+      target.scissor.set(i * width, 0, width, height);
+      target.scissorTest = active.length > 1;
+      // three.js only reads a target's viewport and scissor when it is bound
+      renderer.setRenderTarget(target);
+    } else {
+      renderer.setViewport(i * width, 0, width, height);
+      renderer.setScissor(i * width, 0, width, height);
+    }
+    batch?.useView(viewport.view);
+    renderer.render(scene, camera);
+  });
+}
+
+// --- Export ---
+function exportName() {
+  return `globe-${indicatorData.code}-${currentYear}`;
+}
+
+// offscreen render at the chosen size with the labels of the first viewport drawn on top
+function saveImage() {
+  const [width, height] = imageSize === 'screen'
+    ? [window.innerWidth, window.innerHeight].map(v => Math.round(v * window.devicePixelRatio))
+    : imageSize.split('x').map(Number);
+  let canvas: HTMLCanvasElement;
+  try {
+    canvas = renderImage(renderer, width, height, renderViewports);
+  } catch (error) {
+    console.warn('The image could not be rendered', error);
+    return;
+  }
+  // labels keep their size relative to the view, laid out as on a screen with the image's aspect
+  const scale = height / window.innerHeight;
+  const columnWidth = width / activeViewports().length;
+  layoutCountryLabels({ width: columnWidth / scale, height: window.innerHeight });
+  drawLabels(canvas.getContext('2d')!, labelGroup.children as CSS2DObject[], camera, { x: 0, y: 0, width: columnWidth, height }, scale);
+  downloadCanvas(canvas, `${exportName()}.png`);
+}
+
+function pageBackground() {
+  for (const element of [document.body, document.documentElement]) {
+    const color = getComputedStyle(element).backgroundColor;
+    if (color !== 'rgba(0, 0, 0, 0)' && color !== 'transparent') return color;
+  }
+  return '#ffffff';
+}
+
+// copy the frame just rendered, the WebGL canvas is only readable until the frame ends
+function drawRecordingFrame() {
+  const { width, height } = renderer.domElement;
+  if (recordCanvas.width !== width || recordCanvas.height !== height) {
+    recordCanvas.width = width;
+    recordCanvas.height = height;
+  }
+  const context = recordCanvas.getContext('2d')!;
+  // videos have no transparency, fill in the page background the canvas is shown on
+  context.fillStyle = pageBackground();
+  context.fillRect(0, 0, width, height);
+  context.drawImage(renderer.domElement, 0, 0);
+  const columnWidth = width / activeViewports().length;
+  drawLabels(context, labelGroup.children as CSS2DObject[], camera, { x: 0, y: 0, width: columnWidth, height }, renderer.getPixelRatio());
+}
+
+// record the year playback from the first year, the video is saved when playback stops
+function toggleRecording() {
+  if (recorder.recording) {
+    playback.pause();
+    return;
+  }
+  try {
+    recorder.start();
+  } catch (error) {
+    console.warn('The recording could not be started', error);
+    return;
+  }
+  recordButton.setLabel('Stop');
+  if (!playback.playing) {
+    yearSlider.setValue(1960);
+    playback.play();
+  }
+}
+
+async function stopRecording() {
+  recordButton.setLabel('Record');
+  const video = await recorder.stop();
+  downloadBlob(video, `${exportName()}.webm`);
+}
+
+// countries exported as meshes: the selection, or every country drawn so far
+function exportedCountries() {
+  const chosen = selectedCountries.length ? selectedCountries : countries;
+  return chosen.filter(country => country.triangles.length && batch?.isVisible(country.id));
+}
+
+/**
+ * Save the country surfaces with the heights and colors of the main viewport,
+ * one node per country named by its ISO code. GeoJSON holds the triangles only.
+ */
+async function exportMeshes(format: 'gltf' | 'obj' | 'geojson') {
+  if (!batch) return;
+  if (format === 'geojson') {
+    downloadBlob(exportTriangles(exportedCountries()), 'globe-triangles.geojson');
+    return;
+  }
+
+  const group = new THREE.Group();
+  group.name = 'countries';
+  const material = new THREE.MeshStandardMaterial({ vertexColors: true, side: THREE.DoubleSide });
+  for (const country of exportedCountries()) {
+    const mesh = new THREE.Mesh(batch.bakeGeometry(country), material);
+    mesh.name = country.iso || country.name;
+    group.add(mesh);
+  }
+  try {
+    const blob = format === 'gltf' ? await exportGLTF(group) : exportOBJ(group);
+    downloadBlob(blob, `globe-countries.${format === 'gltf' ? 'glb' : 'obj'}`);
+  } catch (error) {
+    console.warn('The country meshes could not be exported', error);
+  } finally {
+    group.children.forEach(mesh => (mesh as THREE.Mesh).geometry.dispose());
+    material.dispose();
+  }
+}
 
 // --- Start ---
-buildScene();
-function animate() {
+const defaultView = currentViewState();
+applyViewState(decodeViewState(location.hash, defaultView));
+const loading = createLoadingIndicator();
+buildScene(loading).catch(error => {
+  loading.remove();
+  console.warn('The countries could not be loaded', error);
+});
+let lastFrame = performance.now();
+function animate(time = performance.now()) {
   requestAnimationFrame(animate);
+  const deltaSeconds = (time - lastFrame) / 1000;
+  lastFrame = time;
+  playback.update(deltaSeconds);
+  batch?.flush();
+  if (batch) {
+    const level = detailLevelAt(camera.position.distanceTo(controls.target), batch.level);
+    generateLevel(level);
+    batch.showLevel(level);
+  }
+  const lifted = batch?.updateHeights(deltaSeconds);
+  const morphed = batch?.updateMorph(deltaSeconds);
+  if (lifted || morphed) countries.forEach(placeLabel);
+  if (morphed) {
+    sphere.visible = batch?.morph === 0;
+    ocean.visible = batch?.morph === 1;
+  }
+  const flying = flight.flying;
+  flight.update(time);
+  if (flying && !flight.flying) saveViewState(false);
+  updateHover();
   controls.update();
-  renderer.render(scene, camera);
+  renderViewports();
+  layoutCountryLabels();
   labelRenderer.render(scene, camera);
+  if (recorder.recording) drawRecordingFrame();
 }
 animate();
 
@@ -0,0 +1,146 @@
+// this module packs generated polygon data into typed arrays so it can be
+// transferred from workers without copying or written to a mesh bundle file,
+// and unpacks it again
+
+import { latLonToSphere } from './helper';
+import type { LatLon, PolygonData } from './types';
+
+const FLAG_BOUNDARY = 1;
+const FLAG_OFFSET = 2;
+
+export interface PolygonBuffers {
+  lonLat: Float64Array;        // lon, lat per point
+  flags: Uint8Array;           // boundary / offset bits per point
+  rings: Int32Array;           // ring and boundary index per point, -1 for interior points
+  spherePoints: Float32Array;  // x, y, z per point
+  triangles: Uint32Array;      // a, b, c per triangle
+}
+
+export function encodePolygonData(data: PolygonData): PolygonBuffers {
+  const n = data.points.length;
+  const buffers: PolygonBuffers = {
+    lonLat: new Float64Array(n * 2),
+    flags: new Uint8Array(n),
+    rings: new Int32Array(n * 2),
+    spherePoints: new Float32Array(n * 3),
+    triangles: new Uint32Array(data.triangles.flat())
+  };
+
+  data.points.forEach((p, i) => {
+    buffers.lonLat[i * 2] = p.lon;
+    buffers.lonLat[i * 2 + 1] = p.lat;
+    buffers.flags[i] = (p.boundary ? FLAG_BOUNDARY : 0) | (p.offset ? FLAG_OFFSET : 0);
+    buffers.rings[i * 2] = p.boundary ? p.ring ?? 0 : -1;
+    buffers.rings[i * 2 + 1] = p.boundary ? p.boundaryIndex ?? 0 : -1;
+    const s = data.spherePoints[i];
+    buffers.spherePoints.set([s.x, s.y, s.z], i * 3);
+  });
+
+  return buffers;
+}
+
+export function decodePolygonData(buffers: PolygonBuffers): PolygonData {
+  const data: PolygonData = { points: [], spherePoints: [], triangles: [] };
+
+  for (let i = 0; i < buffers.flags.length; i++) {
+    const point: LatLon = { lon: buffers.lonLat[i * 2], lat: buffers.lonLat[i * 2 + 1] };
+    if (buffers.flags[i] & FLAG_BOUNDARY) {
+      point.boundary = true;
+      point.ring = buffers.rings[i * 2];
+      point.boundaryIndex = buffers.rings[i * 2 + 1];
+    }
+    if (buffers.flags[i] & FLAG_OFFSET) point.offset = true;
+    data.points.push(point);
+    data.spherePoints.push({
+      x: buffers.spherePoints[i * 3],
+      y: buffers.spherePoints[i * 3 + 1],
+      z: buffers.spherePoints[i * 3 + 2]
+    });
+  }
+
+  for (let i = 0; i < buffers.triangles.length; i += 3) {
+    data.triangles.push([buffers.triangles[i], buffers.triangles[i + 1], buffers.triangles[i + 2]]);
+  }
+
+  return data;
+}
+
+export function transferables(buffers: PolygonBuffers[]): ArrayBuffer[] {
+  return buffers.flatMap(b => [b.lonLat, b.flags, b.rings, b.spherePoints, b.triangles].map(a => a.buffer as ArrayBuffer));
+}
+
+// --- Binary bundle file ---
+// header:      magic, version, polygon count (uint32), padded to 16 bytes
+// per polygon: point count, triangle count (uint32)
+//              lonLat (float64), rings (int32), triangles (uint32), flags (uint8),
+//              padded to 8 bytes
+// sphere points are not stored, they are recomputed from lonLat on load
+
+const MAGIC = 0x48534d47; // 'GMSH'
+const VERSION = 1;
+const HEADER_BYTES = 16;
+
+const align8 = (n: number) => Math.ceil(n / 8) * 8;
+
+function polygonBytes(points: number, triangles: number) {
+  return align8(8 + points * 16 + points * 8 + triangles * 12 + points);
+}
+
+export function packPolygonBuffers(polygons: PolygonBuffers[]): ArrayBuffer {
+  const size = polygons.reduce(
+    (sum, b) => sum + polygonBytes(b.flags.length, b.triangles.length / 3),
+    HEADER_BYTES
+  );
+  const buffer = new ArrayBuffer(size);
+  new Uint32Array(buffer, 0, 3).set([MAGIC, VERSION, polygons.length]);
+
+  let offset = HEADER_BYTES;
+  for (const b of polygons) {
+    const points = b.flags.length;
+    const triangles = b.triangles.length / 3;
+    new Uint32Array(buffer, offset, 2).set([points, triangles]);
+    let cursor = offset + 8;
+    new Float64Array(buffer, cursor, points * 2).set(b.lonLat);
+    cursor += points * 16;
+    new Int32Array(buffer, cursor, points * 2).set(b.rings);
+    cursor += points * 8;
+    new Uint32Array(buffer, cursor, triangles * 3).set(b.triangles);
+    cursor += triangles * 12;
+    new Uint8Array(buffer, cursor, points).set(b.flags);
+    offset += polygonBytes(points, triangles);
+  }
+
+  return buffer;
+}
+
+export function unpackPolygonBuffers(buffer: ArrayBuffer): PolygonBuffers[] {
+  const [magic, version, count] = new Uint32Array(buffer, 0, 3);
+  if (magic !== MAGIC || version !== VERSION) {
+    throw new Error(`Unsupported mesh bundle (magic ${magic.toString(16)}, version ${version})`);
+  }
+
+  const polygons: PolygonBuffers[] = [];
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < count; i++) {
+    const [points, triangles] = new Uint32Array(buffer, offset, 2);
+    let cursor = offset + 8;
+    const lonLat = new Float64Array(buffer.slice(cursor, cursor + points * 16));
+    cursor += points * 16;
+    const rings = new Int32Array(buffer.slice(cursor, cursor + points * 8));
+    cursor += points * 8;
+    const triangleIndices = new Uint32Array(buffer.slice(cursor, cursor + triangles * 12));
+    cursor += triangles * 12;
+    const flags = new Uint8Array(buffer.slice(cursor, cursor + points));
+
+    const spherePoints = new Float32Array(points * 3);
+    for (let p = 0; p < points; p++) {
+      const { x, y, z } = latLonToSphere(lonLat[p * 2 + 1], lonLat[p * 2]);
+      spherePoints.set([x, y, z], p * 3);
+    }
+
+    polygons.push({ lonLat, flags, rings, spherePoints, triangles: triangleIndices });
+    offset += polygonBytes(points, triangles);
+  }
+
+  return polygons;
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generatePolygonData, parseCountries } from './countries';
+import { hashString, seededRandom } from './helper';
+import { buildMeshFile, createBundleIndex, loadMeshBundle, MESH_BUNDLE_VERSION, meshFileName, type MeshBundleIndex } from './meshBundle';
+import { DEFAULT_OUTLINE } from './outline';
+import type { CountryData } from './types';
+import geojson from '../public/countries.geo.json?raw';
+
+const SEED = 1;
+const BASE = 'http://localhost/';
+const NAMES = ['South Korea', 'Egypt', 'Fiji', 'Iceland'];
+
+function sampleCountries(): CountryData[] {
+  return parseCountries(JSON.parse(geojson)).filter(country => NAMES.includes(country.name));
+}
+
+// a bundle held in memory, keyed by URL as fetched by loadMeshBundle
+function buildBundle(countries: CountryData[], outline = DEFAULT_OUTLINE, changes: Partial<MeshBundleIndex> = {}) {
+  const index = { ...createBundleIndex(SEED, 'countries.geo.json', outline), ...changes };
+  const files = new Map<string, ArrayBuffer>();
+  countries.forEach((country, i) => {
+    const file = meshFileName(i, country.name);
+    files.set(`${BASE}meshes/${file}`, buildMeshFile(country, i, SEED, outline));
+    index.countries.push({ name: country.name, file, polygons: country.polygons.length });
+  });
+  files.set(`${BASE}meshes/index.json`, new TextEncoder().encode(JSON.stringify(index)).buffer);
+  return files;
+}
+
+describe('mesh bundle', () => {
+  let files = new Map<string, ArrayBuffer>();
+
+  beforeEach(() => {
+    vi.stubGlobal('location', { href: BASE });
+    vi.stubGlobal('fetch', async (url: string | URL) => {
+      const body = files.get(new URL(String(url), BASE).href);
+      return body ? new Response(body) : new Response(null, { status: 404 });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('has the sample countries', () => {
+    expect(sampleCountries().map(country => country.name).sort()).toEqual([...NAMES].sort());
+  });
+
+  it('writes the same bytes for the same seed', () => {
+    const countries = sampleCountries();
+    countries.forEach((country, i) => {
+      const first = new Uint8Array(buildMeshFile(country, i, SEED, DEFAULT_OUTLINE));
+      const second = new Uint8Array(buildMeshFile(country, i, SEED, DEFAULT_OUTLINE));
+      expect(first.byteLength).toBeGreaterThan(0);
+      expect(second).toEqual(first);
+    });
+  });
+
+  it('writes different bytes for another seed', () => {
+    const [country] = sampleCountries();
+    expect(new Uint8Array(buildMeshFile(country, 0, SEED + 1, DEFAULT_OUTLINE)))
+      .not.toEqual(new Uint8Array(buildMeshFile(country, 0, SEED, DEFAULT_OUTLINE)));
+  });
+
+  it('loads back the meshes it was built from', async () => {
+    files = buildBundle(sampleCountries());
+    const countries = sampleCountries();
+    const loaded: CountryData[] = [];
+    const missing = await loadMeshBundle(countries, country => loaded.push(country));
+
+    expect(missing).toEqual([]);
+    expect(loaded).toHaveLength(countries.length);
+    countries.forEach((country, i) => {
+      const random = seededRandom(hashString(`${SEED}:${i}:${country.name}`));
+      const expected = country.polygons.map(polygon => generatePolygonData(country.name, polygon, random, undefined, DEFAULT_OUTLINE));
+      expect(country.triangles).toEqual(expected.map(data => data.triangles));
+      expect(country.points).toEqual(expected.map(data => data.points));
+      country.spherePoints.forEach((points, j) => points.forEach((p, k) => {
+        expect(p.x).toBeCloseTo(expected[j].spherePoints[k].x, 6);
+        expect(p.y).toBeCloseTo(expected[j].spherePoints[k].y, 6);
+        expect(p.z).toBeCloseTo(expected[j].spherePoints[k].z, 6);
+      }));
+    });
+  });
+
+  it('hands back every country when the outlines were prepared differently', async () => {
+    files = buildBundle(sampleCountries(), { ...DEFAULT_OUTLINE, maxSegment: 0 });
+    const countries = sampleCountries();
+    expect(await loadMeshBundle(countries, () => {})).toEqual(countries);
+  });
+
+  it.each([
+    ['another version', { version: MESH_BUNDLE_VERSION + 1 }],
+    ['no version', { version: undefined }],
+    ['another seed', { seed: SEED + 1 }],
+    ['other detail parameters', { detail: { name: 'default', tolerance: 0, segment: 1, density: 2, distance: 3 } }]
+  ])('hands back every country from a bundle with %s', async (_, changes) => {
+    files = buildBundle(sampleCountries(), DEFAULT_OUTLINE, changes);
+    const countries = sampleCountries();
+    expect(await loadMeshBundle(countries, () => {})).toEqual(countries);
+  });
+
+  it('hands back countries whose entry no longer matches the GeoJSON', async () => {
+    const countries = sampleCountries();
+    files = buildBundle([...countries].reverse());
+    const missing = await loadMeshBundle(countries, () => {});
+    expect(missing.length).toBeGreaterThan(0);
+    expect(missing.every(country => countries.includes(country))).toBe(true);
+  });
+});
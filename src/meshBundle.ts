@@ -0,0 +1,114 @@
+// this module loads the precomputed mesh bundle written by scripts/buildMeshes.ts,
+// countries missing from it are handed back so they can be generated live
+
+import { generatePolygonData, outline, setPolygonData } from './countries';
+import { hashString, seededRandom } from './helper';
+import { DEFAULT_LEVEL, DETAIL_LEVELS, type DetailLevel } from './lod';
+import { decodePolygonData, encodePolygonData, packPolygonBuffers, unpackPolygonBuffers } from './meshBuffers';
+import type { OutlineOptions } from './outline';
+import type { CountryData } from './types';
+
+export const MESH_BUNDLE_URL = 'meshes/index.json';
+
+// raise when sampling or triangulation changes the meshes, older bundles are then ignored
+export const MESH_BUNDLE_VERSION = 1;
+
+// the seed bundles are built with unless another is given, the one the app loads
+export const MESH_BUNDLE_SEED = 1;
+
+export interface MeshBundleEntry {
+  name: string;
+  file: string;      // relative to the index file
+  polygons: number;
+}
+
+export interface MeshBundleIndex {
+  version?: number;              // MESH_BUNDLE_VERSION of the code that built it
+  seed: number;
+  source: string;
+  outline?: OutlineOptions;      // options the outlines were prepared with, see outline.ts
+  detail?: DetailLevel;          // the detail level stored, see lod.ts
+  countries: MeshBundleEntry[];  // in GeoJSON feature order
+}
+
+// index of a bundle built by this code, countries are added as they are written
+export function createBundleIndex(seed: number, source: string, options: OutlineOptions): MeshBundleIndex {
+  return { version: MESH_BUNDLE_VERSION, seed, source, outline: options, detail: DETAIL_LEVELS[DEFAULT_LEVEL], countries: [] };
+}
+
+// meshes built by other code, with another seed or with other options differ from live ones
+function isCurrent(index: MeshBundleIndex, seed: number) {
+  return index.version === MESH_BUNDLE_VERSION && index.seed === seed &&
+    JSON.stringify(index.outline) === JSON.stringify(outline) &&
+    JSON.stringify(index.detail) === JSON.stringify(DETAIL_LEVELS[DEFAULT_LEVEL]);
+}
+
+export function meshFileName(index: number, name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${String(index).padStart(3, '0')}-${slug}.bin`;
+}
+
+/**
+ * Contents of the bundle file of a country, the same bytes for the same seed.
+ * @param index position of the country in the GeoJSON features
+ * @param options how the dataset's outlines are prepared, see outline.ts
+ */
+export function buildMeshFile(country: CountryData, index: number, seed: number, options: OutlineOptions): ArrayBuffer {
+  // one generator per country keeps its mesh stable when other features change
+  const random = seededRandom(hashString(`${seed}:${index}:${country.name}`));
+  return packPolygonBuffers(country.polygons.map(polygon =>
+    encodePolygonData(generatePolygonData(country.name, polygon, random, DETAIL_LEVELS[DEFAULT_LEVEL], options))));
+}
+
+async function fetchIndex(url: string): Promise<MeshBundleIndex | undefined> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return undefined;
+    // the dev server answers unknown paths with index.html, which fails to parse here
+    return await res.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fill countries from the mesh bundle.
+ * @param countries countries in GeoJSON feature order, updated in place
+ * @param onCountry called for every country loaded from the bundle
+ * @param seed the bundle was built with, others are stale
+ * @returns the countries that could not be loaded and still need to be generated
+ */
+export async function loadMeshBundle(
+  countries: CountryData[],
+  onCountry: (country: CountryData) => void,
+  url = MESH_BUNDLE_URL,
+  seed = MESH_BUNDLE_SEED
+): Promise<CountryData[]> {
+  const index = await fetchIndex(url);
+  // the whole bundle is stale
+  if (!index || !isCurrent(index, seed)) return countries;
+
+  const base = new URL(url, location.href);
+  const missing: CountryData[] = [];
+
+  await Promise.all(countries.map(async (country, i) => {
+    const entry = index.countries[i];
+    // the bundle is stale when the GeoJSON changed since it was built
+    if (!entry || entry.name !== country.name || entry.polygons !== country.polygons.length) {
+      missing.push(country);
+      return;
+    }
+    try {
+      const res = await fetch(new URL(entry.file, base));
+      if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+      const buffers = unpackPolygonBuffers(await res.arrayBuffer());
+      setPolygonData(country, buffers.map(decodePolygonData));
+      onCountry(country);
+    } catch (error) {
+      console.warn(`Mesh bundle entry for ${country.name} could not be loaded`, error);
+      missing.push(country);
+    }
+  }));
+
+  return missing;
+}
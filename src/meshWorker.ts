@@ -0,0 +1,15 @@
+// this worker samples and triangulates the polygons of one country at a time
+// off the main thread, see workerPool.ts
+
+import { generatePolygonData } from './countries';
+import { DETAIL_LEVELS } from './lod';
+import { encodePolygonData, transferables } from './meshBuffers';
+import type { MeshRequest, MeshResponse } from './workerPool';
+
+self.onmessage = (event: MessageEvent<MeshRequest>) => {
+  const { id, name, polygons, level, outline } = event.data;
+  const buffers = polygons.map(polygon =>
+    encodePolygonData(generatePolygonData(name, polygon, Math.random, DETAIL_LEVELS[level], outline)));
+  const response: MeshResponse = { id, polygons: buffers };
+  self.postMessage(response, { transfer: transferables(buffers) });
+};
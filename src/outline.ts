@@ -0,0 +1,257 @@
+// this module prepares polygon outlines before they are sampled: rings are
+// simplified for coarse detail levels, see lod.ts, and long edges are split so
+// they follow the globe instead of cutting under it as straight chords. How
+// outlines are simplified and along which lines edges run depends on the dataset
+
+import * as THREE from 'three';
+import { latLonToSphere } from './helper';
+import type { LocalProjection } from './preprocess';
+import type { LatLon, Polygon } from './types';
+
+export type SimplifyMethod = 'douglas-peucker' | 'visvalingam';
+
+// great circles are the shortest paths, rhumb lines keep their bearing, e.g. along a parallel
+export type Interpolation = 'great-circle' | 'rhumb';
+
+export interface OutlineOptions {
+  simplify: SimplifyMethod;
+  interpolation: Interpolation;
+  maxSegment: number;   // longest edge in degrees of arc, longer ones are split, 0 keeps them
+}
+
+export const DEFAULT_OUTLINE: OutlineOptions = {
+  simplify: 'douglas-peucker',
+  interpolation: 'great-circle',
+  maxSegment: 2
+};
+
+// options by GeoJSON file name, missing ones are taken from DEFAULT_OUTLINE
+const DATASET_OUTLINES: Record<string, Partial<OutlineOptions>> = {
+  // Natural Earth draws borders straight in lon/lat, like the 49th parallel between the US and Canada
+  'countries.geo.json': { interpolation: 'rhumb', maxSegment: 1 }
+};
+
+// rings simplified below this many vertices are kept as they are, small islands stay visible
+const MIN_RING_POINTS = 5;
+
+// halving the tolerance this often without getting a valid ring keeps the ring as it is
+const MAX_RETRIES = 3;
+
+// rhumb lines are interpolated in Mercator up to this latitude, evenly in latitude beyond
+const MAX_MERCATOR_LAT = 89;
+
+/**
+ * @param source URL or file name of the GeoJSON
+ */
+export function outlineOptions(source: string): OutlineOptions {
+  const file = source.split(/[?#]/)[0].split('/').pop() ?? '';
+  return { ...DEFAULT_OUTLINE, ...DATASET_OUTLINES[file] };
+}
+
+// distance of p from the segment ab, in the units of the coordinates
+function segmentDistance(p: LatLon, a: LatLon, b: LatLon) {
+  let x = a.lon, y = a.lat;
+  const dx = b.lon - x, dy = b.lat - y;
+  if (dx !== 0 || dy !== 0) {
+    const t = ((p.lon - x) * dx + (p.lat - y) * dy) / (dx * dx + dy * dy);
+    if (t > 1) { x = b.lon; y = b.lat; }
+    else if (t > 0) { x += dx * t; y += dy * t; }
+  }
+  return Math.hypot(p.lon - x, p.lat - y);
+}
+
+function orientation(p: LatLon, q: LatLon, r: LatLon) {
+  return Math.sign((q.lon - p.lon) * (r.lat - p.lat) - (q.lat - p.lat) * (r.lon - p.lon));
+}
+
+// number of pairs of ring segments crossing each other
+function crossings(ring: LatLon[]) {
+  let count = 0;
+  const n = ring.length;
+  for (let i = 0; i < n; i++) {
+    const a = ring[i], b = ring[(i + 1) % n];
+    // neighboring segments share a vertex, start two segments further
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      const c = ring[j], d = ring[(j + 1) % n];
+      if (orientation(a, b, c) * orientation(a, b, d) < 0 && orientation(c, d, a) * orientation(c, d, b) < 0) count++;
+    }
+  }
+  return count;
+}
+
+function isClosed(ring: LatLon[]) {
+  const first = ring[0], last = ring[ring.length - 1];
+  return first.lon === last.lon && first.lat === last.lat;
+}
+
+function douglasPeucker(ring: LatLon[], tolerance: number): LatLon[] {
+  const closed = isClosed(ring);
+  const line = closed ? ring : [...ring, ring[0]];
+
+  const keep = new Uint8Array(line.length);
+  keep[0] = keep[line.length - 1] = 1;
+  const stack: [number, number][] = [[0, line.length - 1]];
+  while (stack.length) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1, max = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const distance = segmentDistance(line[i], line[start], line[end]);
+      if (distance > max) { farthest = i; max = distance; }
+    }
+    if (farthest === -1) continue;
+    keep[farthest] = 1;
+    stack.push([start, farthest], [farthest, end]);
+  }
+
+  const simplified = line.filter((_, i) => keep[i]);
+  if (!closed) simplified.pop();
+  return simplified;
+}
+
+// area of the triangle a vertex forms with its neighbors
+function triangleArea(a: LatLon, b: LatLon, c: LatLon) {
+  return Math.abs((b.lon - a.lon) * (c.lat - a.lat) - (c.lon - a.lon) * (b.lat - a.lat)) / 2;
+}
+
+/**
+ * Visvalingam–Whyatt: the vertex forming the smallest triangle with its
+ * neighbors is dropped until every triangle is at least half the square of the
+ * tolerance, the area of a triangle as high and as wide as the tolerance.
+ */
+function visvalingam(ring: LatLon[], tolerance: number): LatLon[] {
+  const closed = isClosed(ring);
+  const points = closed ? ring.slice(0, -1) : ring;
+  const n = points.length;
+  const previous = Int32Array.from({ length: n }, (_, i) => (i + n - 1) % n);
+  const next = Int32Array.from({ length: n }, (_, i) => (i + 1) % n);
+  const areas = Float64Array.from({ length: n }, (_, i) => triangleArea(points[previous[i]], points[i], points[next[i]]));
+  const removed = new Uint8Array(n);
+  const threshold = tolerance * tolerance / 2;
+
+  for (let left = n; left > MIN_RING_POINTS; left--) {
+    let smallest = -1;
+    for (let i = 0; i < n; i++) {
+      if (!removed[i] && (smallest === -1 || areas[i] < areas[smallest])) smallest = i;
+    }
+    if (areas[smallest] >= threshold) break;
+    removed[smallest] = 1;
+    const p = previous[smallest], q = next[smallest];
+    next[p] = q;
+    previous[q] = p;
+    areas[p] = triangleArea(points[previous[p]], points[p], points[q]);
+    areas[q] = triangleArea(points[p], points[q], points[next[q]]);
+  }
+
+  const simplified = points.filter((_, i) => !removed[i]);
+  if (closed) simplified.push(simplified[0]);
+  return simplified;
+}
+
+/**
+ * Simplify a ring, open or closed. A simplified ring crossing itself where the
+ * original did not cannot be triangulated, the tolerance is halved until it does not.
+ * @param tolerance in the units of the coordinates, for Douglas–Peucker the largest
+ * distance a dropped vertex may have from the simplified outline
+ */
+export function simplifyRing(ring: LatLon[], tolerance: number, method: SimplifyMethod = 'douglas-peucker'): LatLon[] {
+  if (tolerance <= 0 || ring.length <= MIN_RING_POINTS) return ring;
+  const simplify = method === 'visvalingam' ? visvalingam : douglasPeucker;
+  const original = crossings(ring);
+  for (let retry = 0; retry <= MAX_RETRIES; retry++, tolerance /= 2) {
+    const simplified = simplify(ring, tolerance);
+    if (simplified.length < MIN_RING_POINTS) return ring;
+    if (crossings(simplified) <= original) return simplified;
+  }
+  return ring;
+}
+
+function wrapLon(lon: number) {
+  return ((lon + 540) % 360) - 180;
+}
+
+// the longitude of the same meridian closest to `reference`, so points on ±180° keep their side
+function nearestLon(lon: number, reference: number) {
+  return reference + wrapLon(lon - reference);
+}
+
+// arc between two points in degrees
+function arcLength(a: LatLon, b: LatLon) {
+  const u = latLonToSphere(a.lat, a.lon), v = latLonToSphere(b.lat, b.lon);
+  const cross = Math.hypot(u.y * v.z - u.z * v.y, u.z * v.x - u.x * v.z, u.x * v.y - u.y * v.x);
+  return THREE.MathUtils.radToDeg(Math.atan2(cross, u.x * v.x + u.y * v.y + u.z * v.z));
+}
+
+// Mercator y of a latitude, rhumb lines are straight in Mercator
+function mercatorY(lat: number) {
+  return Math.log(Math.tan(Math.PI / 4 + THREE.MathUtils.degToRad(lat) / 2));
+}
+
+function interpolate(a: LatLon, b: LatLon, t: number, interpolation: Interpolation): LatLon {
+  if (interpolation === 'great-circle') {
+    const u = new THREE.Vector3().copy(latLonToSphere(a.lat, a.lon));
+    const v = new THREE.Vector3().copy(latLonToSphere(b.lat, b.lon));
+    const angle = u.angleTo(v);
+    if (angle < 1e-12) return { lon: a.lon, lat: a.lat };
+    const p = u.multiplyScalar(Math.sin((1 - t) * angle)).add(v.multiplyScalar(Math.sin(t * angle))).normalize();
+    return {
+      lon: nearestLon(THREE.MathUtils.radToDeg(Math.atan2(p.y, p.x)), a.lon),
+      lat: THREE.MathUtils.radToDeg(Math.asin(THREE.MathUtils.clamp(p.z, -1, 1)))
+    };
+  }
+  // the shorter way around in longitude, across the antimeridian if need be
+  const lon = a.lon + wrapLon(b.lon - a.lon) * t;
+  if (Math.abs(a.lat) > MAX_MERCATOR_LAT || Math.abs(b.lat) > MAX_MERCATOR_LAT) {
+    return { lon, lat: a.lat + (b.lat - a.lat) * t };
+  }
+  const ya = mercatorY(a.lat), yb = mercatorY(b.lat);
+  const y = ya + (yb - ya) * t;
+  return { lon, lat: THREE.MathUtils.radToDeg(2 * Math.atan(Math.exp(y)) - Math.PI / 2) };
+}
+
+/**
+ * Split edges longer than `maxSegment` degrees of arc into equal parts along
+ * great circles or rhumb lines.
+ * @param projection when the ring is in a local projection, see preprocess.ts,
+ * edges are split on the globe and the new points projected
+ */
+export function densifyRing(
+  ring: LatLon[],
+  maxSegment: number,
+  interpolation: Interpolation,
+  projection?: LocalProjection
+): LatLon[] {
+  if (maxSegment <= 0 || ring.length < 2) return ring;
+  const geographic = projection ? ring.map(projection.inverse) : ring;
+  const closed = isClosed(ring);
+  const densified: LatLon[] = [];
+  const segments = closed ? ring.length - 1 : ring.length;
+  for (let i = 0; i < segments; i++) {
+    const j = (i + 1) % ring.length;
+    densified.push(ring[i]);
+    const a = geographic[i], b = geographic[j];
+    const parts = Math.ceil(arcLength(a, b) / maxSegment);
+    for (let k = 1; k < parts; k++) {
+      const p = interpolate(a, b, k / parts, interpolation);
+      densified.push(projection ? projection.forward(p) : p);
+    }
+  }
+  if (closed) densified.push(ring[ring.length - 1]);
+  return densified;
+}
+
+/**
+ * Simplify and densify the rings of a polygon, before it is sampled.
+ * @param tolerance of the simplification, 0 keeps every vertex, see lod.ts
+ * @param projection local projection the polygon is in, see preprocess.ts
+ */
+export function preprocessOutline(
+  polygon: Polygon,
+  tolerance: number,
+  options: OutlineOptions,
+  projection?: LocalProjection
+): Polygon {
+  const ring = (points: LatLon[]) =>
+    densifyRing(simplifyRing(points, tolerance, options.simplify), options.maxSegment, options.interpolation, projection);
+  return { outer: ring(polygon.outer), holes: polygon.holes.map(ring) };
+}
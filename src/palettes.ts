@@ -0,0 +1,148 @@
+// this module holds the color palettes the choropleth and the country colors can use
+
+import { countryNeighbors } from './countries';
+import type { CountryData } from './types';
+
+export type PaletteKind = 'sequential' | 'diverging' | 'qualitative';
+
+export interface Palette {
+  name: string;
+  label: string;
+  kind: PaletteKind;
+  colors: string[];        // ordered from low to high for sequential and diverging palettes
+  colorblindSafe: boolean;
+}
+
+export const PALETTES: Palette[] = [
+  // the red ramp the population bins used to have
+  {
+    name: 'reds', label: 'Reds', kind: 'sequential', colorblindSafe: true,
+    colors: ['#f9e5e5', '#f4cccc', '#efb2b2', '#ea9999', '#e57f7f', '#e06666', '#db4c4c', '#d63232', '#cc0000']
+  },
+  {
+    name: 'viridis', label: 'Viridis', kind: 'sequential', colorblindSafe: true,
+    colors: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725']
+  },
+  {
+    name: 'cividis', label: 'Cividis', kind: 'sequential', colorblindSafe: true,
+    colors: ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8678', '#a59c74', '#c3b369', '#fee838']
+  },
+  {
+    name: 'magma', label: 'Magma', kind: 'sequential', colorblindSafe: true,
+    colors: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf']
+  },
+  {
+    name: 'blues', label: 'Blues (ColorBrewer)', kind: 'sequential', colorblindSafe: true,
+    colors: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b']
+  },
+  {
+    name: 'greens', label: 'Greens (ColorBrewer)', kind: 'sequential', colorblindSafe: true,
+    colors: ['#f7fcf5', '#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c', '#00441b']
+  },
+  {
+    name: 'ylorrd', label: 'Yellow-Orange-Red (ColorBrewer)', kind: 'sequential', colorblindSafe: true,
+    colors: ['#ffffcc', '#ffeda0', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#bd0026', '#800026']
+  },
+  {
+    name: 'rdbu', label: 'Red-Blue (ColorBrewer)', kind: 'diverging', colorblindSafe: true,
+    colors: ['#67001f', '#b2182b', '#d6604d', '#f4a582', '#fddbc7', '#f7f7f7', '#d1e5f0', '#92c5de', '#4393c3', '#2166ac', '#053061']
+  },
+  {
+    name: 'puor', label: 'Purple-Orange (ColorBrewer)', kind: 'diverging', colorblindSafe: true,
+    colors: ['#7f3b08', '#b35806', '#e08214', '#fdb863', '#fee0b6', '#f7f7f7', '#d8daeb', '#b2abd2', '#8073ac', '#542788', '#2d004b']
+  },
+  {
+    name: 'brbg', label: 'Brown-Teal (ColorBrewer)', kind: 'diverging', colorblindSafe: true,
+    colors: ['#543005', '#8c510a', '#bf812d', '#dfc27d', '#f6e8c3', '#f5f5f5', '#c7eae5', '#80cdc1', '#35978f', '#01665e', '#003c30']
+  },
+  {
+    name: 'spectral', label: 'Spectral (ColorBrewer)', kind: 'diverging', colorblindSafe: false,
+    colors: ['#9e0142', '#d53e4f', '#f46d43', '#fdae61', '#fee08b', '#ffffbf', '#e6f598', '#abdda4', '#66c2a5', '#3288bd', '#5e4fa2']
+  },
+  {
+    name: 'okabe-ito', label: 'Okabe-Ito', kind: 'qualitative', colorblindSafe: true,
+    colors: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7', '#999999']
+  },
+  {
+    name: 'set2', label: 'Set2 (ColorBrewer)', kind: 'qualitative', colorblindSafe: false,
+    colors: ['#66c2a5', '#fc8d62', '#8da0cb', '#e78ac3', '#a6d854', '#ffd92f', '#e5c494', '#b3b3b3']
+  },
+  {
+    name: 'dark2', label: 'Dark2 (ColorBrewer)', kind: 'qualitative', colorblindSafe: false,
+    colors: ['#1b9e77', '#d95f02', '#7570b3', '#e7298a', '#66a61e', '#e6ab02', '#a6761d', '#666666']
+  },
+  {
+    name: 'pastel1', label: 'Pastel1 (ColorBrewer)', kind: 'qualitative', colorblindSafe: false,
+    colors: ['#fbb4ae', '#b3cde3', '#ccebc5', '#decbe4', '#fed9a6', '#ffffcc', '#e5d8bd', '#fddaec', '#f2f2f2']
+  }
+];
+
+export const DEFAULT_PALETTE = 'reds';
+export const DEFAULT_QUALITATIVE_PALETTE = 'set2';
+// differences are shown on a diverging palette even when another kind is picked
+export const DEFAULT_DIVERGING_PALETTE = 'rdbu';
+
+export function getPalette(name: string): Palette {
+  return PALETTES.find(palette => palette.name === name) ?? PALETTES[0];
+}
+
+export function paletteLabel(palette: Palette) {
+  return `${palette.label} · ${palette.kind}${palette.colorblindSafe ? ', colorblind-safe' : ''}`;
+}
+
+/**
+ * DSatur graph coloring: the node with the most differently colored neighbors is colored
+ * next, with the lowest color none of its neighbors use.
+ * @returns color index per node
+ */
+export function colorGraph(neighbors: Set<number>[]): number[] {
+  const colors = new Array<number>(neighbors.length).fill(-1);
+  const saturation = neighbors.map(() => new Set<number>());
+
+  for (let colored = 0; colored < neighbors.length; colored++) {
+    let node = -1;
+    for (let i = 0; i < neighbors.length; i++) {
+      if (colors[i] !== -1) continue;
+      if (node === -1
+        || saturation[i].size > saturation[node].size
+        || (saturation[i].size === saturation[node].size && neighbors[i].size > neighbors[node].size)) {
+        node = i;
+      }
+    }
+
+    let color = 0;
+    while (saturation[node].has(color)) color++;
+    colors[node] = color;
+    for (const neighbor of neighbors[node]) saturation[neighbor].add(color);
+  }
+  return colors;
+}
+
+/**
+ * Give every country a color of a qualitative palette so that neighbors never share one.
+ * Features with the same ISO code are one node and get the same color.
+ */
+export function assignQualitativeColors(countries: CountryData[], palette: Palette) {
+  const keys = countries.map(country => country.iso || country.name);
+  const nodes = [...new Set(keys)];
+  const nodeOf = new Map(nodes.map((key, i) => [key, i]));
+
+  const countryNeighborIds = countryNeighbors(countries);
+  const neighbors = nodes.map(() => new Set<number>());
+  countries.forEach((_, id) => {
+    const node = nodeOf.get(keys[id])!;
+    for (const other of countryNeighborIds[id]) {
+      const otherNode = nodeOf.get(keys[other])!;
+      if (otherNode !== node) neighbors[node].add(otherNode);
+    }
+  });
+
+  const colors = colorGraph(neighbors);
+  const needed = Math.max(0, ...colors) + 1;
+  if (needed > palette.colors.length) {
+    console.warn(`${palette.label} has ${palette.colors.length} colors, the map needs ${needed}`);
+  }
+  countries.forEach((country, id) => {
+    country.color = palette.colors[colors[nodeOf.get(keys[id])!] % palette.colors.length];
+  });
+}
@@ -0,0 +1,60 @@
+// this module advances a fractional year while playing, it is stepped from
+// the animate() loop so the year stays in sync with rendering
+
+export function createPlayback({
+  min,
+  max,
+  speed = 2,
+  onChange,
+  onPlayingChange
+}: {
+  min: number;
+  max: number;
+  speed?: number;                               // years per second
+  onChange: (position: number) => void;         // called every frame while playing
+  onPlayingChange?: (playing: boolean) => void;
+}) {
+  let playing = false;
+  let position = max;
+
+  function setPlaying(value: boolean) {
+    if (playing === value) return;
+    playing = value;
+    onPlayingChange?.(playing);
+  }
+
+  return {
+    get playing() {
+      return playing;
+    },
+
+    play() {
+      // restart from the beginning once the end was reached
+      if (position >= max) position = min;
+      setPlaying(true);
+    },
+
+    pause() {
+      setPlaying(false);
+    },
+
+    toggle() {
+      if (playing) this.pause(); else this.play();
+    },
+
+    setSpeed(value: number) {
+      speed = value;
+    },
+
+    seek(year: number) {
+      position = Math.min(max, Math.max(min, year));
+    },
+
+    update(deltaSeconds: number) {
+      if (!playing) return;
+      position = Math.min(max, position + speed * deltaSeconds);
+      onChange(position);
+      if (position >= max) setPlaying(false);
+    }
+  };
+}
@@ -0,0 +1,110 @@
+// this module finds the pole of inaccessibility of a polygon: the interior point
+// farthest from its outline, where a label fits best. It follows the polylabel
+// algorithm, a grid of cells refined best first until the precision is reached
+
+import { pointInPolygon } from './countries';
+import { azimuthalProjection, preparePolygon } from './preprocess';
+import type { LatLon, Polygon } from './types';
+
+// stop refining after this many cells, the best point found so far is returned
+const MAX_CELLS = 10_000;
+
+interface Cell {
+  x: number;
+  y: number;
+  half: number;       // half the cell size
+  distance: number;   // signed distance from the cell center to the outline, negative outside
+  max: number;        // largest distance any point of the cell can have
+}
+
+function segmentDistance(px: number, py: number, a: LatLon, b: LatLon) {
+  let x = a.lon, y = a.lat;
+  let dx = b.lon - x, dy = b.lat - y;
+  if (dx !== 0 || dy !== 0) {
+    const t = ((px - x) * dx + (py - y) * dy) / (dx * dx + dy * dy);
+    if (t > 1) { x = b.lon; y = b.lat; }
+    else if (t > 0) { x += dx * t; y += dy * t; }
+  }
+  dx = px - x;
+  dy = py - y;
+  return Math.hypot(dx, dy);
+}
+
+function signedDistance(x: number, y: number, polygon: Polygon) {
+  let min = Infinity;
+  for (const ring of [polygon.outer, ...polygon.holes]) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      min = Math.min(min, segmentDistance(x, y, ring[j], ring[i]));
+    }
+  }
+  return pointInPolygon({ lon: x, lat: y }, polygon) ? min : -min;
+}
+
+function createCell(x: number, y: number, half: number, polygon: Polygon): Cell {
+  const distance = signedDistance(x, y, polygon);
+  return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+}
+
+function bounds(ring: LatLon[]) {
+  const lons = ring.map(p => p.lon), lats = ring.map(p => p.lat);
+  return {
+    minX: Math.min(...lons), maxX: Math.max(...lons),
+    minY: Math.min(...lats), maxY: Math.max(...lats)
+  };
+}
+
+/**
+ * @param precision in degrees of arc
+ */
+export function poleOfInaccessibility(polygon: Polygon, precision = 0.05): LatLon {
+  // search in a local azimuthal projection so distances are not stretched towards the poles
+  const prepared = preparePolygon(polygon);
+  let projection = prepared.projection;
+  let planar = prepared.polygon;
+  if (!projection) {
+    const box = bounds(polygon.outer);
+    const local = azimuthalProjection({ lon: (box.minX + box.maxX) / 2, lat: (box.minY + box.maxY) / 2 });
+    planar = {
+      outer: polygon.outer.map(local.forward),
+      holes: polygon.holes.map(hole => hole.map(local.forward))
+    };
+    projection = local;
+  }
+
+  const { minX, maxX, minY, maxY } = bounds(planar.outer);
+  const size = Math.min(maxX - minX, maxY - minY);
+  const center = createCell((minX + maxX) / 2, (minY + maxY) / 2, 0, planar);
+  if (size === 0) return projection.inverse({ lon: center.x, lat: center.y });
+
+  // cells sorted by their potential, the most promising one last
+  const queue: Cell[] = [];
+  const push = (cell: Cell) => {
+    let low = 0, high = queue.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (queue[mid].max < cell.max) low = mid + 1; else high = mid;
+    }
+    queue.splice(low, 0, cell);
+  };
+
+  const half = size / 2;
+  for (let x = minX; x < maxX; x += size) {
+    for (let y = minY; y < maxY; y += size) push(createCell(x + half, y + half, half, planar));
+  }
+
+  let best = center;
+  for (let cells = 0; queue.length && cells < MAX_CELLS; cells++) {
+    const cell = queue.pop()!;
+    if (cell.distance > best.distance) best = cell;
+    // no point in this cell can beat the best one by more than the precision
+    if (cell.max - best.distance <= precision) continue;
+
+    const quarter = cell.half / 2;
+    push(createCell(cell.x - quarter, cell.y - quarter, quarter, planar));
+    push(createCell(cell.x + quarter, cell.y - quarter, quarter, planar));
+    push(createCell(cell.x - quarter, cell.y + quarter, quarter, planar));
+    push(createCell(cell.x + quarter, cell.y + quarter, quarter, planar));
+  }
+
+  return projection.inverse({ lon: best.x, lat: best.y });
+}
@@ -0,0 +1,127 @@
+// this module prepares polygons that cannot be sampled and triangulated in raw lon/lat:
+// rings crossing the ±180° meridian and rings enclosing a pole are moved into a local
+// azimuthal projection first, the generated points are projected back afterwards
+
+import * as THREE from 'three';
+import { latLonToSphere } from './helper';
+import type { LatLon, Polygon } from './types';
+
+const DEG = 180 / Math.PI;
+
+/**
+ * Planar projection around a center point. Planar coordinates are stored in the
+ * `lon` (x) and `lat` (y) fields so the lon/lat pipeline can consume them as is,
+ * and are scaled to degrees of arc so distances stay comparable to lon/lat input.
+ */
+export interface LocalProjection {
+  forward(p: LatLon): LatLon;
+  inverse(p: LatLon): LatLon;
+}
+
+export function wrapLon(lon: number) {
+  return ((lon + 540) % 360) - 180;
+}
+
+export function crossesAntimeridian(ring: LatLon[]): boolean {
+  for (let i = 0; i < ring.length - 1; i++) {
+    if (Math.abs(ring[i + 1].lon - ring[i].lon) > 180) return true;
+  }
+  return false;
+}
+
+/**
+ * Detect a ring that winds around a pole.
+ * @returns 1 for the north pole, -1 for the south pole, 0 if no pole is enclosed
+ */
+export function enclosedPole(ring: LatLon[]): 1 | -1 | 0 {
+  let sweep = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sweep += wrapLon(b.lon - a.lon);
+  }
+  if (Math.abs(sweep) < 180) return 0;
+  const meanLat = ring.reduce((sum, p) => sum + p.lat, 0) / ring.length;
+  return meanLat >= 0 ? 1 : -1;
+}
+
+/**
+ * Azimuthal equidistant projection centered on `center`.
+ * @param center Latitude and longitude of the projection center in degrees
+ */
+export function azimuthalProjection(center: LatLon): LocalProjection {
+  const φ0 = THREE.MathUtils.degToRad(center.lat);
+  const λ0 = THREE.MathUtils.degToRad(center.lon);
+  const sinφ0 = Math.sin(φ0), cosφ0 = Math.cos(φ0);
+
+  return {
+    forward(p) {
+      const φ = THREE.MathUtils.degToRad(p.lat);
+      const dλ = THREE.MathUtils.degToRad(p.lon) - λ0;
+      const cosC = THREE.MathUtils.clamp(sinφ0 * Math.sin(φ) + cosφ0 * Math.cos(φ) * Math.cos(dλ), -1, 1);
+      const c = Math.acos(cosC);
+      const k = c < 1e-12 ? 1 : c / Math.sin(c);
+      return {
+        ...p,
+        lon: DEG * k * Math.cos(φ) * Math.sin(dλ),
+        lat: DEG * k * (cosφ0 * Math.sin(φ) - sinφ0 * Math.cos(φ) * Math.cos(dλ))
+      };
+    },
+    inverse(p) {
+      const x = p.lon / DEG, y = p.lat / DEG;
+      const ρ = Math.sqrt(x * x + y * y);
+      if (ρ < 1e-12) return { ...p, lon: center.lon, lat: center.lat };
+      const sinC = Math.sin(ρ), cosC = Math.cos(ρ);
+      const φ = Math.asin(THREE.MathUtils.clamp(cosC * sinφ0 + y * sinC * cosφ0 / ρ, -1, 1));
+      const λ = λ0 + Math.atan2(x * sinC, ρ * cosφ0 * cosC - y * sinφ0 * sinC);
+      return { ...p, lon: wrapLon(λ * DEG), lat: φ * DEG };
+    }
+  };
+}
+
+// center of the ring on the sphere, falls back to the first vertex for degenerate rings
+function sphericalCentroid(ring: LatLon[]): LatLon {
+  const sum = new THREE.Vector3();
+  for (const p of ring) {
+    const { x, y, z } = latLonToSphere(p.lat, p.lon);
+    sum.add(new THREE.Vector3(x, y, z));
+  }
+  if (sum.lengthSq() < 1e-12) return { lat: ring[0].lat, lon: ring[0].lon };
+  sum.normalize();
+  return {
+    lat: THREE.MathUtils.radToDeg(Math.asin(sum.z)),
+    lon: THREE.MathUtils.radToDeg(Math.atan2(sum.y, sum.x))
+  };
+}
+
+function projectRing(ring: LatLon[], projection: LocalProjection, pole: 1 | -1 | 0): LatLon[] {
+  // segments running along the pole are an artifact of cutting the ring at ±180°
+  const kept = pole ? ring.filter(p => Math.abs(p.lat) < 90 - 1e-9) : ring;
+  const projected: LatLon[] = [];
+  for (const p of kept.map(projection.forward)) {
+    const last = projected[projected.length - 1];
+    if (last && Math.abs(last.lon - p.lon) < 1e-9 && Math.abs(last.lat - p.lat) < 1e-9) continue;
+    projected.push(p);
+  }
+  return projected;
+}
+
+/**
+ * Move a polygon into a local projection when raw lon/lat would distort it.
+ * @returns the polygon to sample and triangulate, and the projection to undo
+ * afterwards, or no projection when the polygon is safe to use as is
+ */
+export function preparePolygon(polygon: Polygon): { polygon: Polygon, projection?: LocalProjection } {
+  const pole = enclosedPole(polygon.outer);
+  if (!pole && !crossesAntimeridian(polygon.outer)) return { polygon };
+
+  const center = pole ? { lat: 90 * pole, lon: 0 } : sphericalCentroid(polygon.outer);
+  const projection = azimuthalProjection(center);
+  return {
+    polygon: {
+      outer: projectRing(polygon.outer, projection, pole),
+      holes: polygon.holes.map(hole => projectRing(hole, projection, 0))
+    },
+    projection
+  };
+}
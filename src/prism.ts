@@ -0,0 +1,33 @@
+// this module maps indicator values to prism heights for the extruded map mode
+
+import { EXTRUDE_HEIGHT } from './batch';
+
+export type PrismScale = 'linear' | 'sqrt' | 'log';
+
+export const PRISM_SCALES: { value: PrismScale, label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'sqrt', label: 'Square root' },
+  { value: 'log', label: 'Logarithmic' }
+];
+
+// height of the prism of the largest value, in globe radii
+export const MAX_PRISM_HEIGHT = 0.3;
+
+/**
+ * Extrusion height for a value, countries without data stay flat.
+ * @param min smallest value of the scale, e.g. of the active classification
+ * @param max largest value of the scale
+ */
+export function prismHeight(value: number | undefined, min: number, max: number, scale: PrismScale): number {
+  if (value === undefined || isNaN(value) || !(max > min)) return EXTRUDE_HEIGHT;
+
+  let t: number;
+  if (scale === 'log') {
+    // shift so the smallest value maps to log(1) = 0, negative values included
+    t = Math.log1p(Math.max(0, value - min)) / Math.log1p(max - min);
+  } else {
+    t = (value - min) / (max - min);
+    if (scale === 'sqrt') t = Math.sqrt(Math.max(0, t));
+  }
+  return EXTRUDE_HEIGHT + Math.min(1, Math.max(0, t)) * MAX_PRISM_HEIGHT;
+}
@@ -0,0 +1,109 @@
+// this module projects longitude/latitude onto the flat map. The same formulas
+// exist twice: in TypeScript for picking and labels, and as GLSL for the
+// shaders that morph the globe into the map
+
+import type { Vec3 } from './types';
+
+export type MapProjection = 'equirectangular' | 'mercator' | 'equal-earth';
+
+export const MAP_PROJECTIONS: { value: MapProjection, label: string }[] = [
+  { value: 'equirectangular', label: 'Equirectangular' },
+  { value: 'mercator', label: 'Mercator' },
+  { value: 'equal-earth', label: 'Equal Earth' }
+];
+
+// value of the mapProjection uniform
+export const PROJECTION_INDEX: Record<MapProjection, number> = {
+  'equirectangular': 0,
+  'mercator': 1,
+  'equal-earth': 2
+};
+
+// mercator stretches to infinity at the poles, latitudes are clamped to ±85°
+const MERCATOR_MAX_LAT = (85 * Math.PI) / 180;
+
+// Equal Earth polynomial coefficients (Šavrič, Patterson and Jenny, 2018)
+const A1 = 1.340264, A2 = -0.081106, A3 = 0.000893, A4 = 0.003796;
+const M = Math.sqrt(3) / 2;
+
+/**
+ * Project a point on the map plane.
+ * @param lon longitude in radians
+ * @param lat latitude in radians
+ * @returns map coordinates in globe radii, north is +y
+ */
+export function projectLonLat(lon: number, lat: number, projection: MapProjection): { x: number, y: number } {
+  if (projection === 'mercator') {
+    const φ = Math.max(-MERCATOR_MAX_LAT, Math.min(MERCATOR_MAX_LAT, lat));
+    return { x: lon, y: Math.log(Math.tan(Math.PI / 4 + φ / 2)) };
+  }
+  if (projection === 'equal-earth') {
+    const θ = Math.asin(M * Math.sin(lat));
+    const θ2 = θ * θ, θ6 = θ2 * θ2 * θ2;
+    return {
+      x: (lon * Math.cos(θ)) / (M * (A1 + 3 * A2 * θ2 + θ6 * (7 * A3 + 9 * A4 * θ2))),
+      y: θ * (A1 + A2 * θ2 + θ6 * (A3 + A4 * θ2))
+    };
+  }
+  return { x: lon, y: lat };
+}
+
+// longitude and latitude in radians of a point on the globe, see latLonToSphere
+export function sphereToLonLat({ x, y, z }: Vec3): { lon: number, lat: number } {
+  const length = Math.hypot(x, y, z) || 1;
+  return { lon: Math.atan2(y, x), lat: Math.asin(Math.max(-1, Math.min(1, z / length))) };
+}
+
+export function projectSpherePoint(point: Vec3, projection: MapProjection) {
+  const { lon, lat } = sphereToLonLat(point);
+  return projectLonLat(lon, lat, projection);
+}
+
+// outline of the whole map, used for the flat ocean
+export function projectionOutline(projection: MapProjection, steps = 90): { x: number, y: number }[] {
+  const outline: { x: number, y: number }[] = [];
+  for (let i = 0; i <= steps; i++) outline.push(projectLonLat(Math.PI, Math.PI / 2 - (Math.PI * i) / steps, projection));
+  for (let i = 0; i <= steps; i++) outline.push(projectLonLat(-Math.PI, -Math.PI / 2 + (Math.PI * i) / steps, projection));
+  return outline;
+}
+
+// GLSL version of the formulas above, plus the morph between globe and map.
+// expects the mapProjection and mapMorph uniforms and a lonLat attribute
+export const PROJECTION_GLSL = `
+  uniform int mapProjection;
+  uniform float mapMorph;
+  attribute vec2 lonLat;
+
+  vec2 projectLonLat(vec2 ll) {
+    if (mapProjection == 1) {
+      float lat = clamp(ll.y, -${MERCATOR_MAX_LAT.toFixed(6)}, ${MERCATOR_MAX_LAT.toFixed(6)});
+      return vec2(ll.x, log(tan(PI / 4.0 + lat / 2.0)));
+    }
+    if (mapProjection == 2) {
+      float theta = asin(${M.toFixed(8)} * sin(ll.y));
+      float t2 = theta * theta;
+      float t6 = t2 * t2 * t2;
+      return vec2(
+        ll.x * cos(theta) / (${M.toFixed(8)} * (${A1} + 3.0 * ${A2} * t2 + t6 * (7.0 * ${A3} + 9.0 * ${A4} * t2))),
+        theta * (${A1} + ${A2} * t2 + t6 * (${A3} + ${A4} * t2))
+      );
+    }
+    return ll;
+  }
+
+  // globe position lifted by height, blended with the map position lifted along +z
+  vec3 morphPosition(vec3 p, float height) {
+    vec3 globe = p * (1.0 + height);
+    vec3 plane = vec3(projectLonLat(lonLat), height);
+    return mix(globe, plane, mapMorph);
+  }
+
+  // the globe normal expressed in the local east, north, up frame is the map normal
+  vec3 morphNormal(vec3 n, vec3 p) {
+    vec3 up = normalize(p);
+    vec3 east = length(up.xy) < 1e-6 ? vec3(1.0, 0.0, 0.0) : normalize(vec3(-up.y, up.x, 0.0));
+    vec3 north = cross(up, east);
+    vec3 plane = vec3(dot(n, east), dot(n, north), dot(n, up));
+    return normalize(mix(n, plane, mapMorph));
+  }
+`;
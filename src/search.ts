@@ -0,0 +1,194 @@
+// this module finds countries by name with a forgiving fuzzy match, and shows
+// the search box with its list of suggestions
+
+import type { CountryData } from './types';
+
+const MAX_RESULTS = 8;
+
+export interface SearchResult {
+  country: CountryData;
+  match?: string;   // alias that matched, when it was not the name
+}
+
+// lower case without accents, so "cote" finds "Côte d'Ivoire"
+function normalize(text: string) {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().trim();
+}
+
+/**
+ * How well `query` matches `text`, higher is better, 0 for no match.
+ * Whole and prefix matches rank first, then matches at word starts, then
+ * substrings, then the letters of the query appearing in order.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  if (!query) return 0;
+  if (text === query) return 1000;
+  if (text.startsWith(query)) return 800 - text.length;
+  if (text.includes(' ' + query)) return 600 - text.length;
+  if (text.includes(query)) return 400 - text.length;
+
+  // subsequence, consecutive letters and word starts score more
+  let score = 0, position = -1, run = 0;
+  for (const char of query) {
+    const found = text.indexOf(char, position + 1);
+    if (found === -1) return 0;
+    run = found === position + 1 ? run + 1 : 0;
+    score += 1 + run * 2 + (found === 0 || text[found - 1] === ' ' ? 3 : 0);
+    position = found;
+  }
+  // letters scattered across a long name are a coincidence rather than a match
+  if (score < query.length * 2) return 0;
+  return Math.max(1, Math.min(300, score * 10 - text.length));
+}
+
+/**
+ * Countries matching the query by name or alias, best match first.
+ * Features sharing a name are listed once.
+ */
+export function searchCountries(query: string, countries: CountryData[], limit = MAX_RESULTS): SearchResult[] {
+  const normalized = normalize(query);
+  if (!normalized) return [];
+
+  const best = new Map<string, SearchResult & { score: number }>();
+  for (const country of countries) {
+    let score = fuzzyScore(normalized, normalize(country.name));
+    let match: string | undefined;
+    for (const alias of country.aliases) {
+      // aliases rank a little below the name
+      const aliasScore = fuzzyScore(normalized, normalize(alias)) - 1;
+      if (aliasScore > score) {
+        score = aliasScore;
+        match = alias;
+      }
+    }
+    if (score <= 0) continue;
+    const previous = best.get(country.name);
+    if (!previous || score > previous.score) best.set(country.name, { country, match, score });
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || a.country.name.localeCompare(b.country.name))
+    .slice(0, limit)
+    .map(({ country, match }) => ({ country, match }));
+}
+
+/**
+ * Search input for the control panel.
+ * @param onActive country under the keyboard or mouse in the suggestions, undefined when the list closes
+ */
+export function createSearchBox({
+  cpanel,
+  getCountries,
+  onSelect,
+  onActive
+}: {
+  cpanel: HTMLDivElement;
+  getCountries: () => CountryData[];
+  onSelect: (country: CountryData) => void;
+  onActive?: (country: CountryData | undefined) => void;
+}) {
+  const wrapper = document.createElement('label');
+  Object.assign(wrapper.style, {
+    position: 'relative',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '4px',
+    marginBottom: '8px'
+  });
+
+  const text = document.createElement('span');
+  text.textContent = 'Search';
+
+  const input = document.createElement('input');
+  input.type = 'search';
+  input.placeholder = 'Country name or code';
+  input.autocomplete = 'off';
+  input.style.maxWidth = '220px';
+
+  const list = document.createElement('div');
+  Object.assign(list.style, {
+    position: 'absolute',
+    top: '100%',
+    left: '0',
+    width: '220px',
+    marginTop: '2px',
+    borderRadius: '3px',
+    background: 'rgba(0,0,0,0.85)',
+    color: '#fff',
+    zIndex: '11',
+    display: 'none'
+  });
+
+  let results: SearchResult[] = [];
+  let active = -1;
+
+  function setActive(index: number) {
+    active = index;
+    [...list.children].forEach((item, i) => {
+      (item as HTMLElement).style.background = i === active ? 'rgba(255,255,255,0.2)' : '';
+    });
+    onActive?.(results[active]?.country);
+  }
+
+  function close() {
+    results = [];
+    list.style.display = 'none';
+    list.replaceChildren();
+    setActive(-1);
+  }
+
+  function select(index: number) {
+    const result = results[index];
+    if (!result) return;
+    input.value = '';
+    close();
+    input.blur();
+    onSelect(result.country);
+  }
+
+  function update() {
+    results = searchCountries(input.value, getCountries());
+    list.replaceChildren(...results.map((result, i) => {
+      const item = document.createElement('div');
+      Object.assign(item.style, { padding: '4px 6px', cursor: 'pointer' });
+      item.textContent = result.country.name;
+      if (result.match) {
+        const alias = document.createElement('span');
+        alias.textContent = ` (${result.match})`;
+        alias.style.opacity = '0.6';
+        item.appendChild(alias);
+      }
+      item.addEventListener('mouseenter', () => setActive(i));
+      // mousedown comes before the input loses focus and closes the list
+      item.addEventListener('mousedown', event => {
+        event.preventDefault();
+        select(i);
+      });
+      return item;
+    }));
+    list.style.display = results.length ? 'block' : 'none';
+    setActive(results.length ? 0 : -1);
+  }
+
+  input.addEventListener('input', update);
+  input.addEventListener('focus', update);
+  input.addEventListener('blur', close);
+  input.addEventListener('keydown', event => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (!results.length) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActive((active + step + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      select(active);
+    } else if (event.key === 'Escape') {
+      input.value = '';
+      close();
+      input.blur();
+    }
+  });
+
+  wrapper.append(text, input, list);
+  cpanel.appendChild(wrapper);
+}
@@ -1,15 +1,15 @@
-import * as THREE from 'three';
 import type { CSS2DObject } from 'three/examples/jsm/Addons.js';
 
 export interface CountryData {
+  id: number;                // GeoJSON feature index
   name: string;
-  polygons: LatLon[][];
+  iso: string;               // ISO 3166-1 alpha-3 code, empty when the feature has none
+  aliases: string[];         // other names and codes of the feature, matched by the search
+  polygons: Polygon[];
   points: LatLon[][];
   spherePoints: Vec3[][];
   triangles: [number, number, number][][];
-  pointsMesh?: THREE.Points[];
-  mesh?: THREE.Mesh[];       // optional, for the surface
-  edges?: THREE.LineSegments[]; // optional, for edges
+  meshes: CountryMesh[];     // by detail level, see lod.ts, the default level is also in the fields above
   color: string;
   label?: CSS2DObject;
 }
@@ -18,7 +18,51 @@ export interface LatLon {
   lon: number; lat: number; 
   boundary?: boolean, 
   boundaryIndex?: number,
+  ring?: number, // 0 is the outer ring, holes follow
   offset?: boolean
 }
 
+// sampled points and triangles of all polygons of a country, one entry per polygon
+export interface CountryMesh {
+  points: LatLon[][];
+  spherePoints: Vec3[][];
+  triangles: [number, number, number][][];
+}
+
+// sampled points and triangles generated for one polygon
+export interface PolygonData {
+  points: LatLon[];
+  spherePoints: Vec3[];
+  triangles: [number, number, number][];
+}
+
+export interface Polygon {
+  outer: LatLon[];
+  holes: LatLon[][];
+}
+
 export interface Vec3 { x: number; y: number; z: number; }
+
+// choropleth class: values in [min, max) get `color`
+export interface Category {
+  min: number;
+  max: number;
+  color: string;
+}
+
+export interface IndicatorValue {
+  value: number;   // NaN when there is no data for the year
+  color: string;
+}
+
+// one World Bank WDI indicator, yearly values keyed by ISO3 code and year
+export interface IndicatorDataset {
+  title: string;
+  lastUpdated: string;
+  name: string;    // e.g. "Population, total"
+  code: string;    // e.g. "SP.POP.TOTL"
+  unit?: string;   // appended to values, e.g. "%"
+  signed?: boolean; // values are changes, shown with a sign
+  names: Record<string, string>;   // WDI country name by ISO3 code
+  countries: Record<string, Record<string, IndicatorValue>>;
+}
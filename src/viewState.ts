@@ -0,0 +1,78 @@
+// this module encodes the view in the URL hash so a view can be shared or
+// bookmarked, e.g. #year=2010&indicator=SP.POP.TOTL&camera=0,0,4&layers=surfaces&select=LUX
+
+import { COMPARE_MODES, type CompareMode } from './binding';
+import { MAP_PROJECTIONS, type MapProjection } from './projection';
+import type { Vec3 } from './types';
+
+export type Layer = 'points' | 'edges' | 'surfaces' | 'prism';
+
+export const LAYERS: Layer[] = ['points', 'edges', 'surfaces', 'prism'];
+
+export interface ViewState {
+  camera: Vec3;
+  target: Vec3;             // point the camera orbits, moves when panning
+  year: string;
+  indicator: string;        // indicator code
+  layers: Layer[];          // visible layers
+  map?: MapProjection;      // projection of the flat map, undefined on the globe
+  selected: string[];       // ISO3 codes, or feature ids for features without one
+  compare: { mode: CompareMode, year: string, indicator: string };
+}
+
+function formatVector({ x, y, z }: Vec3) {
+  return [x, y, z].map(v => Number(v.toFixed(3))).join(',');
+}
+
+function parseVector(text: string | null): Vec3 | undefined {
+  const values = text?.split(',').map(Number);
+  if (values?.length !== 3 || values.some(v => !isFinite(v))) return undefined;
+  return { x: values[0], y: values[1], z: values[2] };
+}
+
+export function encodeViewState(state: ViewState): string {
+  const params = new URLSearchParams();
+  params.set('year', state.year);
+  params.set('indicator', state.indicator);
+  params.set('camera', formatVector(state.camera));
+  if (state.target.x || state.target.y || state.target.z) params.set('target', formatVector(state.target));
+  params.set('layers', state.layers.join(','));
+  if (state.map) params.set('map', state.map);
+  if (state.selected.length) params.set('select', state.selected.join(','));
+  if (state.compare.mode !== 'off') {
+    params.set('compare', state.compare.mode);
+    params.set('compareYear', state.compare.year);
+    if (state.compare.mode === 'split') params.set('compareIndicator', state.compare.indicator);
+  }
+  // commas are safe in a hash, keep them readable
+  return params.toString().replace(/%2C/g, ',');
+}
+
+/**
+ * Read a view from a URL hash. An empty hash gives `defaults`, otherwise missing
+ * or invalid values fall back to them, except the map, target and comparison
+ * which are left out of the hash on the globe, at the origin and when off.
+ */
+export function decodeViewState(hash: string, defaults: ViewState): ViewState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (![...params.keys()].length) return defaults;
+  const year = params.get('year');
+  const layers = params.get('layers');
+  const map = params.get('map');
+  const selected = params.get('select');
+  const compareYear = params.get('compareYear');
+  return {
+    camera: parseVector(params.get('camera')) ?? defaults.camera,
+    target: parseVector(params.get('target')) ?? { x: 0, y: 0, z: 0 },
+    year: year && /^\d{4}$/.test(year) ? year : defaults.year,
+    indicator: params.get('indicator') || defaults.indicator,
+    layers: layers === null ? defaults.layers : LAYERS.filter(layer => layers.split(',').includes(layer)),
+    map: MAP_PROJECTIONS.find(projection => projection.value === map)?.value,
+    selected: selected === null ? defaults.selected : selected.split(',').filter(Boolean),
+    compare: {
+      mode: COMPARE_MODES.find(mode => mode.value === params.get('compare'))?.value ?? 'off',
+      year: compareYear && /^\d{4}$/.test(compareYear) ? compareYear : defaults.compare.year,
+      indicator: params.get('compareIndicator') || defaults.compare.indicator
+    }
+  };
+}
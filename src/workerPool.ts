@@ -0,0 +1,94 @@
+// this module spreads country mesh generation over a pool of web workers
+// and hands every finished country back as soon as it arrives
+
+import { generatePolygonData, outline, setPolygonData } from './countries';
+import { decodePolygonData, type PolygonBuffers } from './meshBuffers';
+import { DEFAULT_LEVEL, DETAIL_LEVELS } from './lod';
+import type { OutlineOptions } from './outline';
+import type { CountryData, Polygon } from './types';
+
+export interface MeshRequest {
+  id: number;
+  name: string;
+  polygons: Polygon[];
+  level: number;     // index into DETAIL_LEVELS
+  outline: OutlineOptions;
+}
+
+export interface MeshResponse {
+  id: number;
+  polygons: PolygonBuffers[];
+}
+
+const MAX_WORKERS = 4;
+
+/**
+ * Generate points and triangles for every country in a worker pool.
+ * @param countries countries to fill in, updated in place
+ * @param onCountry called once per country when its data is ready, in completion order
+ * @param level detail level to generate, see lod.ts
+ */
+export function generateCountryDataInWorkers(
+  countries: CountryData[],
+  onCountry: (country: CountryData) => void,
+  level = DEFAULT_LEVEL
+): Promise<void> {
+  // no worker support, generate on the main thread
+  if (typeof Worker === 'undefined') {
+    try {
+      for (const country of countries) {
+        const detail = DETAIL_LEVELS[level];
+        setPolygonData(country, country.polygons.map(polygon => generatePolygonData(country.name, polygon, Math.random, detail, outline)), level);
+        onCountry(country);
+      }
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    return Promise.resolve();
+  }
+
+  const size = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+  let next = 0;
+  let finished = 0;
+
+  return new Promise((resolve, reject) => {
+    if (countries.length === 0) return resolve();
+
+    const workers = Array.from({ length: size }, () =>
+      new Worker(new URL('./meshWorker.ts', import.meta.url), { type: 'module' })
+    );
+
+    const dispatch = (worker: Worker) => {
+      if (next >= countries.length) return;
+      const id = next++;
+      const request: MeshRequest = { id, name: countries[id].name, polygons: countries[id].polygons, level, outline };
+      worker.postMessage(request);
+    };
+
+    for (const worker of workers) {
+      worker.onmessage = (event: MessageEvent<MeshResponse>) => {
+        const country = countries[event.data.id];
+        try {
+          setPolygonData(country, event.data.polygons.map(decodePolygonData), level);
+          onCountry(country);
+        } catch (error) {
+          workers.forEach(w => w.terminate());
+          reject(error);
+          return;
+        }
+        finished++;
+        if (finished === countries.length) {
+          workers.forEach(w => w.terminate());
+          resolve();
+          return;
+        }
+        dispatch(worker);
+      };
+      worker.onerror = (event) => {
+        workers.forEach(w => w.terminate());
+        reject(event.error ?? new Error(event.message));
+      };
+      dispatch(worker);
+    }
+  });
+}